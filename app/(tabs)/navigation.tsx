@@ -1,16 +1,148 @@
-import graphDataRaw from '@/assets/graphs/upper_campus_graph_data.json';
-import GraphOverlay, { MAP_ICON_ASSETS, MAP_ICON_LEGEND } from '@/components/GraphOverlay';
+import GraphOverlay, {
+  CampusSwitcher,
+  FloorPicker,
+  MAP_ICON_ASSETS,
+  MAP_ICON_LEGEND,
+  ROUTE_COLORS,
+} from '@/components/GraphOverlay';
+import RouteTextView from '@/components/RouteTextView';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
+import { MAINTAINER_TOOLS } from '@/constants/maintainer';
+import { CAMPUS_GRAPH, CAMPUS_MAPS, DEFAULT_MAP, getCampusMap, mapIdOfNode } from '@/constants/map';
 import { useSettings } from '@/context/SettingsContext';
-import { GraphData, Node } from '@/types/graph';
-import { findShortestPath } from '@/utils/routing';
-import { useEffect, useMemo, useState } from 'react';
-import { Image, Keyboard, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import { useHapticCues } from '@/hooks/use-haptic-cues';
+import { useLocationFix } from '@/hooks/use-location';
+import { useVoiceGuidance } from '@/hooks/use-voice-guidance';
+import { Node } from '@/types/graph';
+import { filterGraphByMap } from '@/utils/campuses';
+import {
+  buildClosures,
+  Closure,
+  closuresOnRoute,
+  describeClosure,
+  toClosureSet,
+  unplacedReports,
+} from '@/utils/closures';
+import { createPin, DroppedPin, remapClosureSet, snapToEdge, splitEdges } from '@/utils/dropped-pins';
+import { isStairEdge, listFloors } from '@/utils/floors';
+import { approachCue, HapticCue } from '@/utils/haptic-cues';
+import { resolveImageSize } from '@/utils/image-size';
+import { buildInstructions } from '@/utils/instructions';
+import { createDeviceLocationProvider, createReplayLocationProvider, LocationFix, ReplayFix } from '@/utils/location';
+import { findMultiStopRoute, MultiStopRoute } from '@/utils/multi-stop';
+import { isStairNode } from '@/utils/node-kinds';
+import { fixesAlongPath, locateOnMap, nodesToLonLat } from '@/utils/positioning';
+import { fetchReports } from '@/utils/reports';
+import { RouteProgress, trackRoute, unvisitedStops } from '@/utils/route-progress';
+import {
+  diagnoseRoute,
+  explainDiagnosis,
+  Relaxation,
+  relaxPreferences,
+  RouteDiagnosis,
+} from '@/utils/route-diagnostics';
+import {
+  DEFAULT_ELEVATOR_BIAS,
+  excludesStairs,
+  RouteGraph,
+  RoutePreferences,
+  RouteResult,
+} from '@/utils/routing';
+import {
+  estimateInstruction,
+  estimateInstructions,
+  formatDistance,
+  formatTravel,
+  toMeters,
+} from '@/utils/travel';
+import { spokenInstruction } from '@/utils/voice-guidance';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  AccessibilityInfo,
+  Alert,
+  Image,
+  Keyboard,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
 
-const graphData = graphDataRaw as GraphData;
-const mapSource = require('@/assets/images/columbia-ods-map-2.png');
+// Every campus map merged, so routes can cross between maps
+const graphData = CAMPUS_GRAPH.data;
+// Built once; preference changes are applied per query
+const routeGraph = new RouteGraph(graphData);
+
+// Best route plus alternatives offered in the route selector
+const MAX_ROUTE_OPTIONS = ROUTE_COLORS.length;
+// Stops between start and destination (8 stops in total)
+const MAX_WAYPOINTS = 6;
+
+type Waypoint = { node: Node | null; query: string };
+
+const isIndoorSafe = (node: Node) => node.indoor === true && node.outside_campus !== true;
+
+/**
+ * Routes for a trip through `stops` (start, waypoints, destination). Indoor-first
+ * when minimizeOutdoorPaths is true:
+ * 1) Try indoor-only graph; if a path exists, take it.
+ * 2) Otherwise, fall back to normal graph with outdoor penalty.
+ * Multi-stop trips chain legs through the waypoints and have no alternatives.
+ */
+function planTrip(
+  graph: RouteGraph,
+  stops: Node[],
+  preferences: RoutePreferences,
+  { minimizeOutdoorPaths, optimizeStopOrder }: { minimizeOutdoorPaths: boolean; optimizeStopOrder: boolean }
+): { routes: RouteResult[]; multiStopRoute: MultiStopRoute | null } {
+  const indoorOnly = minimizeOutdoorPaths && stops.every(isIndoorSafe);
+
+  if (stops.length > 2) {
+    const stopIds = stops.map(node => node.id);
+    let chosen: MultiStopRoute | null = null;
+
+    if (indoorOnly) {
+      chosen = findMultiStopRoute(
+        graph,
+        stopIds,
+        { ...preferences, outdoorPenalty: 0 },
+        { allowNode: isIndoorSafe, algorithm: 'astar', optimizeOrder: optimizeStopOrder }
+      );
+    }
+
+    if (!chosen) {
+      chosen = findMultiStopRoute(graph, stopIds, preferences, {
+        algorithm: 'astar',
+        optimizeOrder: optimizeStopOrder,
+      });
+    }
+
+    return { routes: chosen ? [chosen.route] : [], multiStopRoute: chosen };
+  }
+
+  const startId = stops[0].id;
+  const endId = stops[stops.length - 1].id;
+  let routes: RouteResult[] = [];
+
+  if (indoorOnly) {
+    routes = graph.findAlternativeRoutes(
+      startId,
+      endId,
+      MAX_ROUTE_OPTIONS,
+      { ...preferences, outdoorPenalty: 0 },
+      { allowNode: isIndoorSafe, algorithm: 'astar' }
+    );
+  }
+
+  if (routes.length === 0) {
+    routes = graph.findAlternativeRoutes(startId, endId, MAX_ROUTE_OPTIONS, preferences, { algorithm: 'astar' });
+  }
+
+  return { routes, multiStopRoute: null };
+}
 
 export default function NavigationScreen() {
   // Get marker visibility from settings
@@ -18,12 +150,18 @@ export default function NavigationScreen() {
     markerVisibility,
     avoidStairs,
     minimizeOutdoorPaths,
-    caneCrutches,
+    mobilityProfile,
+    distanceUnits,
     wheelchairUser,
     setWheelchairUser,
     preferElevators,
     setPreferElevators,
+    simulateLocation,
+    voiceGuidance,
+    setVoiceGuidance,
+    voiceVerbosity,
   } = useSettings();
+  const playCue = useHapticCues();
   
   // Mode: 'explore' (single search) or 'navigate' (start/end)
   const [mode, setMode] = useState<'explore' | 'navigate'>('explore');
@@ -37,17 +175,53 @@ export default function NavigationScreen() {
   const [selectedNode, setSelectedNode] = useState<Node | null>(null); // For explore mode
   const [startNode, setStartNode] = useState<Node | null>(null);
   const [endNode, setEndNode] = useState<Node | null>(null);
+
+  // Intermediate stops (multi-stop routing)
+  const [waypoints, setWaypoints] = useState<Waypoint[]>([]);
+  const [optimizeStopOrder, setOptimizeStopOrder] = useState(false);
   
   // Active Input for suggestions
-  const [activeInput, setActiveInput] = useState<'search' | 'start' | 'end' | null>(null);
+  const [activeInput, setActiveInput] = useState<'search' | 'start' | 'end' | 'waypoint' | null>(null);
+  const [activeWaypointIndex, setActiveWaypointIndex] = useState(0);
 
   // Routing Result
-  const [routePath, setRoutePath] = useState<string[]>([]);
+  const [routes, setRoutes] = useState<RouteResult[]>([]);
+  const [selectedRouteIndex, setSelectedRouteIndex] = useState(0);
+  const [multiStopRoute, setMultiStopRoute] = useState<MultiStopRoute | null>(null);
+  const route = routes[selectedRouteIndex] ?? null;
+  const routePath = useMemo(() => route?.nodes.map(node => node.id) ?? [], [route]);
   const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
+
+  // Broken / construction reports snapped onto the graph
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [unplacedReportCount, setUnplacedReportCount] = useState(0);
+
+  // Constraints the user chose to lift for the current trip after "no route"
+  const [relaxation, setRelaxation] = useState<Relaxation>({});
+
+  // Points dropped by long-pressing the map, snapped onto the nearest edge
+  const [pins, setPins] = useState<DroppedPin[]>([]);
+  // Index into `instructions`
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
+  const [showItinerary, setShowItinerary] = useState(false);
+  // Step list for screen readers
+  const [showRouteText, setShowRouteText] = useState(false);
   
   // Show Only Route mode
   const [showOnlyRoute, setShowOnlyRoute] = useState(false);
+
+  // Floor shown on the map; null shows every floor
+  const [visibleFloor, setVisibleFloor] = useState<number | null>(null);
+
+  // Campus map shown
+  const [visibleMapId, setVisibleMapId] = useState(DEFAULT_MAP.id);
+  const campusMap = getCampusMap(visibleMapId);
+  const floors = useMemo(() => listFloors(campusMap.graph), [campusMap]);
+
+  // A floor picked on one map may not exist on the next
+  useEffect(() => {
+    setVisibleFloor(current => (current !== null && !floors.includes(current) ? null : current));
+  }, [floors]);
   
   // Layout
   const [containerDimensions, setContainerDimensions] = useState({ width: 0, height: 0 });
@@ -70,63 +244,82 @@ export default function NavigationScreen() {
     setZoomLevel(1);
   };
 
-  // Graph Coordinate System Configuration
-  // Adjust these to align the graph nodes with the map image
-  const GRAPH_WIDTH = 820; // tuned for current map alignment
-  const GRAPH_HEIGHT = 1250;
-  const GRAPH_X_OFFSET = -310;
-  const GRAPH_Y_OFFSET = -85;
-  // Safely resolve image dimensions
-  const { originalWidth, originalHeight } = useMemo(() => {
-    let width = 1000;
-    let height = 1000;
-
-    try {
-      // Try standard resolveAssetSource
-      const source = Image.resolveAssetSource?.(mapSource);
-      if (source) {
-        width = source.width;
-        height = source.height;
-      } else if (typeof mapSource === 'object' && mapSource !== null) {
-        // Fallback for web/bundlers where require returns object with dimensions
-        if (mapSource.width) width = mapSource.width;
-        if (mapSource.height) height = mapSource.height;
-      }
-    } catch (e) {
-      console.log('Error resolving image source:', e);
-    }
-    
-    return { originalWidth: width, originalHeight: height };
+  // Natural size of the map image
+  const { width: originalWidth, height: originalHeight } = useMemo(
+    () => resolveImageSize(campusMap.image),
+    [campusMap]
+  );
+
+  // Load reports once; routing works without them if this fails
+  useEffect(() => {
+    fetchReports()
+      .then(reports => {
+        setClosures(buildClosures(routeGraph, reports));
+        setUnplacedReportCount(unplacedReports(reports).length);
+      })
+      .catch(error => console.error('Error loading reports:', error));
   }, []);
 
-  const routePreferences = useMemo(() => {
-    const disallowStairs = wheelchairUser || avoidStairs;
+  const waypointNodes = useMemo(
+    () => waypoints.flatMap(waypoint => (waypoint.node ? [waypoint.node] : [])),
+    [waypoints]
+  );
+
+  // Split the edges under pins that are in use; the shared graph is kept when there are none
+  const activePins = useMemo(
+    () =>
+      pins.filter(pin =>
+        [startNode, endNode, ...waypointNodes].some(node => node?.id === pin.node.id)
+      ),
+    [endNode, pins, startNode, waypointNodes]
+  );
+  const splitGraph = useMemo(() => splitEdges(graphData, activePins), [activePins]);
+  const activeRouteGraph = useMemo(
+    () => (activePins.length > 0 ? new RouteGraph(splitGraph.data) : routeGraph),
+    [activePins.length, splitGraph]
+  );
+
+  const closureSet = useMemo(
+    () => remapClosureSet(toClosureSet(closures), splitGraph),
+    [closures, splitGraph]
+  );
+
+  const routePreferences = useMemo((): RoutePreferences => {
+    // The mobility profile decides stair handling; "Avoid Stairs" can still force them off
+    const disallowStairs = avoidStairs;
     // Outdoor penalty only used when minimizeOutdoorPaths is true (applied on indoor<->outdoor crossings)
     const outdoorPenalty = minimizeOutdoorPaths ? 50 : 0;
     // Make campus boundary penalty very large to strongly avoid leaving campus
     const campusBoundaryPenalty = 5000;
 
-    return {
-      disallowStairs,
-      outdoorPenalty,
-      campusBoundaryPenalty,
-      // stairs penalty and elevator bias are intentionally not used
-    };
-  }, [avoidStairs, minimizeOutdoorPaths, wheelchairUser]);
+    // Prefer Elevators discounts elevator hops and penalizes ramps / long grade changes
+    const elevatorBias = preferElevators ? DEFAULT_ELEVATOR_BIAS : undefined;
 
-  const displayGraphData = useMemo(() => {
-    if (!routePreferences.disallowStairs) return graphData;
+    return relaxPreferences(
+      {
+        profile: mobilityProfile,
+        disallowStairs,
+        outdoorPenalty,
+        campusBoundaryPenalty,
+        elevatorBias,
+        closures: closureSet,
+        // stairs penalty is intentionally not used
+      },
+      relaxation
+    );
+  }, [avoidStairs, closureSet, minimizeOutdoorPaths, mobilityProfile, preferElevators, relaxation]);
 
-    // Remove non-accessible edges (stairs). This may isolate some nodes; hide those nodes too.
-    const isStairsNodeName = (name?: string) => (name ?? '').toLowerCase().includes('stair');
+  const stairsExcluded = useMemo(() => excludesStairs(routePreferences), [routePreferences]);
 
-    const allowedNodeIds = new Set(
-      graphData.nodes
-        .map(node => node.id)
-    );
+  const displayGraphData = useMemo(() => {
+    const baseData = splitGraph.data;
+    if (!stairsExcluded) return baseData;
+
+    // Remove non-accessible edges and nodes (stairs), as routing does. This may isolate some nodes; hide those nodes too.
+    const allowedNodeIds = new Set(baseData.nodes.filter(node => !isStairNode(node)).map(node => node.id));
 
-    const edges = graphData.edges
-      .filter(edge => edge.no_stairs !== false)
+    const edges = baseData.edges
+      .filter(edge => !isStairEdge(edge))
       .filter(edge => allowedNodeIds.has(edge.sourceId) && allowedNodeIds.has(edge.targetId));
 
     const connectedNodeIds = new Set<string>();
@@ -139,69 +332,300 @@ export default function NavigationScreen() {
     if (selectedNode?.id && allowedNodeIds.has(selectedNode.id)) connectedNodeIds.add(selectedNode.id);
     if (startNode?.id && allowedNodeIds.has(startNode.id)) connectedNodeIds.add(startNode.id);
     if (endNode?.id && allowedNodeIds.has(endNode.id)) connectedNodeIds.add(endNode.id);
+    waypointNodes.forEach(node => connectedNodeIds.add(node.id));
 
-    const nodes = graphData.nodes.filter(node => connectedNodeIds.has(node.id));
+    const nodes = baseData.nodes.filter(node => connectedNodeIds.has(node.id));
 
     return { nodes, edges };
-  }, [endNode?.id, routePreferences.disallowStairs, selectedNode?.id, startNode?.id]);
+  }, [endNode?.id, splitGraph, stairsExcluded, selectedNode?.id, startNode?.id, waypointNodes]);
+
+  // Only the shown map's nodes are drawn; pins belong to the map of the edge they sit on
+  const mapGraphData = useMemo(() => {
+    const pinMapIds = new Map(activePins.map(pin => [pin.node.id, mapIdOfNode(pin.snap.edge.sourceId)]));
+    return filterGraphByMap(displayGraphData, campusMap.id, node => mapIdOfNode(node.id) ?? pinMapIds.get(node.id));
+  }, [activePins, campusMap.id, displayGraphData]);
+
+  // Blue dot: the device's location, or the route replayed when a maintainer simulates it
+  const [showLocation, setShowLocation] = useState(false);
+  const [simulatedTrack, setSimulatedTrack] = useState<ReplayFix[] | null>(null);
+  const locationProvider = useMemo(() => {
+    if (!showLocation) return null;
+    return simulatedTrack ? createReplayLocationProvider(simulatedTrack) : createDeviceLocationProvider();
+  }, [showLocation, simulatedTrack]);
+  const { fix, error: locationError } = useLocationFix(locationProvider);
+  const userPosition = useMemo(
+    () => (fix ? locateOnMap(fix, campusMap, mapGraphData) : null),
+    [campusMap, fix, mapGraphData]
+  );
+
+  useEffect(() => {
+    if (!locationError) return;
+    setShowLocation(false);
+    Alert.alert('Location unavailable', locationError.message);
+  }, [locationError]);
 
-  const nodeById = useMemo(() => {
-    const map = new Map<string, Node>();
-    displayGraphData.nodes.forEach(n => map.set(n.id, n));
-    return map;
-  }, [displayGraphData.nodes]);
+  // A relaxation only applies to the trip it was accepted for; rerouting continues the same trip
+  const reroutingRef = useRef(false);
+  useEffect(() => {
+    if (reroutingRef.current) {
+      reroutingRef.current = false;
+      return;
+    }
+    setRelaxation({});
+  }, [endNode, startNode, waypointNodes]);
 
   // Calculate Route
-  // Indoor-first routing when minimizeOutdoorPaths is true:
-  // 1) Try indoor-only graph; if a path exists, take it.
-  // 2) Otherwise, fall back to normal graph with outdoor penalty.
   useEffect(() => {
     if (!(startNode && endNode)) {
-      setRoutePath([]);
+      setRoutes([]);
+      setMultiStopRoute(null);
+      setSelectedRouteIndex(0);
       setCurrentStepIndex(0);
       return;
     }
 
-    const isIndoorSafe = (node: Node) =>
-      node.indoor === true && node.outside_campus !== true;
-
-    let chosenPath: string[] | null = null;
-
-    if (minimizeOutdoorPaths && isIndoorSafe(startNode) && isIndoorSafe(endNode)) {
-      const indoorNodes = displayGraphData.nodes.filter(isIndoorSafe);
-      const indoorIds = new Set(indoorNodes.map(n => n.id));
-      // Only attempt indoor routing if both endpoints exist in the indoor subgraph
-      if (indoorIds.has(startNode.id) && indoorIds.has(endNode.id)) {
-        const indoorEdges = displayGraphData.edges.filter(
-          e => indoorIds.has(e.sourceId) && indoorIds.has(e.targetId)
-        );
-        const indoorGraph: GraphData = { nodes: indoorNodes, edges: indoorEdges };
-
-        const indoorPath = findShortestPath(indoorGraph, startNode.id, endNode.id, {
-          ...routePreferences,
-          outdoorPenalty: 0,
-        });
-
-        if (indoorPath && indoorPath.length > 0) {
-          chosenPath = indoorPath;
-        }
-      }
+    const plan = planTrip(activeRouteGraph, [startNode, ...waypointNodes, endNode], routePreferences, {
+      minimizeOutdoorPaths,
+      optimizeStopOrder,
+    });
+    setMultiStopRoute(plan.multiStopRoute);
+    setRoutes(plan.routes);
+    setSelectedRouteIndex(0);
+    setCurrentStepIndex(0);
+  }, [
+    activeRouteGraph,
+    endNode,
+    minimizeOutdoorPaths,
+    optimizeStopOrder,
+    routePreferences,
+    startNode,
+    waypointNodes,
+  ]);
+
+  // Closures the route avoids (compared with planning the same trip as if nothing were reported) or still passes
+  const routeClosures = useMemo(() => {
+    if (!route || !startNode || !endNode || closures.length === 0) return { avoided: [], passed: [] };
+
+    const baseline = planTrip(
+      activeRouteGraph,
+      [startNode, ...waypointNodes, endNode],
+      { ...routePreferences, closures: undefined },
+      { minimizeOutdoorPaths, optimizeStopOrder }
+    );
+    const baselineRoute = baseline.routes[selectedRouteIndex] ?? baseline.routes[0];
+
+    const passed = closuresOnRoute(closures, route);
+    const avoided = baselineRoute
+      ? closuresOnRoute(closures, baselineRoute).filter(closure => !passed.includes(closure))
+      : [];
+    return { avoided, passed };
+  }, [
+    activeRouteGraph,
+    closures,
+    endNode,
+    minimizeOutdoorPaths,
+    optimizeStopOrder,
+    route,
+    routePreferences,
+    selectedRouteIndex,
+    startNode,
+    waypointNodes,
+  ]);
+  const closureWarnings = useMemo(
+    () => [
+      ...routeClosures.avoided.map(closure => `Route avoids ${describeClosure(closure)}`),
+      ...routeClosures.passed.map(closure => `Route passes ${describeClosure(closure)}`),
+      // Older reports without a map position cannot be checked against the route
+      ...(route && unplacedReportCount > 0
+        ? [
+            unplacedReportCount === 1
+              ? '1 older report is not on the map yet, so the route was not checked against it; open Reports to place it'
+              : `${unplacedReportCount} older reports are not on the map yet, so the route was not checked against them; open Reports to place them`,
+          ]
+        : []),
+    ],
+    [route, routeClosures, unplacedReportCount]
+  );
+
+  // Buzz when a reported obstacle first shows up among the route's warnings
+  const warnedClosuresRef = useRef(new Set<Closure>());
+  useEffect(() => {
+    const current = new Set([...routeClosures.avoided, ...routeClosures.passed]);
+    const appeared = [...current].some(closure => !warnedClosuresRef.current.has(closure));
+    warnedClosuresRef.current = current;
+    if (appeared) playCue('routeWarning');
+  }, [playCue, routeClosures]);
+
+  // Why there is no route: first unreachable leg in the requested stop order
+  const noRouteDiagnosis = useMemo((): { diagnosis: RouteDiagnosis; leg: number } | null => {
+    if (!(startNode && endNode) || routes.length > 0) return null;
+
+    const stops = [startNode, ...waypointNodes, endNode];
+    for (let leg = 1; leg < stops.length; leg++) {
+      const diagnosis = diagnoseRoute(activeRouteGraph, stops[leg - 1].id, stops[leg].id, routePreferences);
+      if (diagnosis.reason !== 'reachable') return { diagnosis, leg };
     }
+    return null;
+  }, [activeRouteGraph, endNode, routePreferences, routes.length, startNode, waypointNodes]);
+
+  const diagnosisBlockers = useMemo(() => {
+    if (!noRouteDiagnosis) return [];
+    const { diagnosis } = noRouteDiagnosis;
+
+    const describeClosed = (match: (closure: Closure) => boolean, fallback: string) => {
+      const closure = closures.find(match);
+      return closure ? describeClosure(closure) : fallback;
+    };
+
+    return [
+      ...diagnosis.stairEdges.map(edge => {
+        const source = activeRouteGraph.getNode(edge.sourceId)?.name ?? edge.sourceId;
+        const target = activeRouteGraph.getNode(edge.targetId)?.name ?? edge.targetId;
+        return `Stairs between ${source} and ${target}`;
+      }),
+      ...diagnosis.closedNodes.map(node => describeClosed(closure => closure.node?.id === node.id, node.name)),
+      ...diagnosis.closedEdges.map(edge => describeClosed(closure => closure.edge?.id === edge.id, edge.id)),
+    ];
+  }, [activeRouteGraph, closures, noRouteDiagnosis]);
+
+  const handleRelax = (next: Relaxation) => {
+    const warnings: string[] = [];
+    if (next.allowStairs) warnings.push('The route will include stairs, which your settings normally avoid.');
+    if (next.ignoreClosures) warnings.push('The route will pass places reported broken and may not be passable.');
 
-    if (!chosenPath) {
-      chosenPath = findShortestPath(displayGraphData, startNode.id, endNode.id, routePreferences);
+    Alert.alert('Show route anyway?', warnings.join('\n\n'), [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Show Route',
+        style: 'destructive',
+        onPress: () => setRelaxation(current => ({ ...current, ...next })),
+      },
+    ]);
+  };
+
+  // Turn-by-turn directions; straight runs are merged into single steps
+  const instructions = useMemo(() => (route ? buildInstructions(route) : []), [route]);
+  const currentInstruction = instructions[currentStepIndex] ?? null;
+  const routeEstimate = useMemo(
+    () => estimateInstructions(instructions, mobilityProfile),
+    [instructions, mobilityProfile]
+  );
+  // Voice guidance announces the step shown in the step bar
+  const spokenStep = useMemo(
+    () =>
+      currentInstruction
+        ? spokenInstruction(currentInstruction, voiceVerbosity, {
+            index: currentStepIndex,
+            count: instructions.length,
+            units: distanceUnits,
+            profile: mobilityProfile,
+          })
+        : null,
+    [currentInstruction, currentStepIndex, distanceUnits, instructions.length, mobilityProfile, voiceVerbosity]
+  );
+  const { repeat: repeatInstruction } = useVoiceGuidance(spokenStep, voiceGuidance, currentInstruction);
+
+  // Step number of each node where a step's action happens, for marker labels
+  const stepNumbers = useMemo(() => {
+    const numbers = new Map<string, number>();
+    instructions.forEach((instruction, index) => {
+      const nodeId = routePath[instruction.startIndex];
+      if (nodeId && !numbers.has(nodeId)) numbers.set(nodeId, index + 1);
+    });
+    return numbers;
+  }, [instructions, routePath]);
+
+  // Node where the current step's action happens
+  const currentStepNodeId = currentInstruction ? routePath[currentInstruction.startIndex] ?? null : null;
+
+  // While a single floor is shown, follow the current step onto the floor it leads to
+  const currentStepFloor = currentInstruction ? route?.nodes[currentInstruction.endIndex]?.floor : undefined;
+  useEffect(() => {
+    if (route && currentStepFloor !== undefined) {
+      setVisibleFloor(current => (current === null ? current : currentStepFloor));
     }
+  }, [currentStepFloor, route]);
 
-    setRoutePath(chosenPath || []);
-    setCurrentStepIndex(0);
-  }, [displayGraphData, endNode, minimizeOutdoorPaths, routePreferences, startNode]);
+  // Follow the current step onto the campus map it leads to
+  const currentStepMapId = currentInstruction ? mapIdOfNode(routePath[currentInstruction.endIndex] ?? '') : undefined;
+  useEffect(() => {
+    if (currentStepMapId) setVisibleMapId(currentStepMapId);
+  }, [currentStepMapId]);
+
+  // Keep currentStepIndex in bounds when the instructions change
+  useEffect(() => {
+    if (currentStepIndex >= instructions.length) {
+      setCurrentStepIndex(instructions.length > 0 ? instructions.length - 1 : 0);
+    }
+  }, [currentStepIndex, instructions.length]);
 
-  // Keep currentStepIndex in bounds when routePath changes
+  // Follow the blue dot along the route: advance the step as the user passes
+  // nodes, play approach cues and reroute from where they are once they stray from it
+  const trackingRef = useRef<{
+    route: RouteResult;
+    fix: LocationFix;
+    progress: RouteProgress;
+    /** Cues already played on this route, as "step:cue". */
+    cues: Set<string>;
+  } | null>(null);
+  // Off route with no path close enough to reroute from
+  const [offRoute, setOffRoute] = useState(false);
   useEffect(() => {
-    if (currentStepIndex >= routePath.length) {
-      setCurrentStepIndex(routePath.length > 0 ? routePath.length - 1 : 0);
+    if (!route || !userPosition || !endNode) {
+      setOffRoute(false);
+      return;
     }
-  }, [currentStepIndex, routePath.length]);
+    const tracked = trackingRef.current?.route === route ? trackingRef.current : null;
+    if (tracked?.fix === userPosition.fix) return;
+
+    const mapNodeIds = new Set(mapGraphData.nodes.map(node => node.id));
+    const progress = trackRoute(
+      route,
+      instructions,
+      userPosition,
+      { metersPerUnit: campusMap.metersPerUnit, isOnMap: node => mapNodeIds.has(node.id) },
+      tracked?.progress ?? null
+    );
+    if (!progress) return;
+    const cues = tracked?.cues ?? new Set<string>();
+    trackingRef.current = { route, fix: userPosition.fix, progress, cues };
+    if (progress.stepIndex !== tracked?.progress.stepIndex) setCurrentStepIndex(progress.stepIndex);
+
+    // Each cue plays once per step, e.g. "turn coming" and then "turn now"
+    const playOnce = (cue: HapticCue) => {
+      const key = `${progress.stepIndex}:${cue}`;
+      if (cues.has(key)) return;
+      cues.add(key);
+      playCue(cue);
+    };
+    const instruction = instructions[progress.stepIndex];
+    const actionNode = instruction && route.nodes[instruction.startIndex];
+    if (progress.arrived) {
+      playOnce('arrived');
+    } else if (!progress.offRoute && actionNode && mapNodeIds.has(actionNode.id)) {
+      const meters =
+        Math.hypot(userPosition.raw.x - actionNode.x, userPosition.raw.y - actionNode.y) * campusMap.metersPerUnit;
+      const cue = approachCue(instruction, meters);
+      if (cue) playOnce(cue);
+    }
+
+    // The snapped point lies on a drawn path; snap it again onto the map's own graph to pin it
+    const snap = progress.offRoute && userPosition.snap ? snapToEdge(campusMap.graph, userPosition.point) : null;
+    setOffRoute(progress.offRoute && !snap);
+    if (!snap) return;
+
+    // Start from the user's position; preferences, relaxation and the stops not yet reached carry over
+    const pin = createPin(campusMap.graph, snap, `location-${userPosition.fix.timestamp}`);
+    const start = { ...pin.node, name: 'Current location' };
+    const remaining = unvisitedStops(route, waypointNodes, progress);
+    reroutingRef.current = true;
+    setPins([...activePins, { ...pin, node: start }]);
+    if (remaining.length < waypointNodes.length) {
+      setWaypoints(prev => prev.filter(waypoint => !waypoint.node || remaining.includes(waypoint.node)));
+    }
+    setStartNode(start);
+    setStartQuery(start.name);
+  }, [activePins, campusMap, endNode, instructions, mapGraphData, playCue, route, userPosition, waypointNodes]);
 
   // Suggestions Logic
   const suggestions = useMemo(() => {
@@ -212,15 +636,33 @@ export default function NavigationScreen() {
           ? startQuery
           : activeInput === 'end'
             ? endQuery
-            : '';
+            : activeInput === 'waypoint'
+              ? waypoints[activeWaypointIndex]?.query ?? ''
+              : '';
 
     if (!query || query.length < 2) return [];
 
     return displayGraphData.nodes
       .filter(node => node.name && node.name.toLowerCase().includes(query.toLowerCase()));
-  }, [activeInput, displayGraphData, endQuery, searchQuery, startQuery]);
+  }, [activeInput, activeWaypointIndex, displayGraphData, endQuery, searchQuery, startQuery, waypoints]);
+
+  // Screen readers stay on the text field while typing, so say when suggestions
+  // appear; waiting for a pause in typing avoids talking over every keystroke
+  useEffect(() => {
+    if (suggestions.length === 0) return;
+    const timer = setTimeout(() => {
+      AccessibilityInfo.announceForAccessibility(
+        `${suggestions.length} ${suggestions.length === 1 ? 'suggestion' : 'suggestions'} below`
+      );
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [suggestions.length]);
 
   const handleSelectSuggestion = (node: Node) => {
+    // Suggestions come from every map; show the one the place is on
+    const nodeMapId = mapIdOfNode(node.id);
+    if (nodeMapId) setVisibleMapId(nodeMapId);
+
     if (activeInput === 'search') {
       setSearchQuery(node.name);
       setSelectedNode(node);
@@ -234,8 +676,28 @@ export default function NavigationScreen() {
       setEndQuery(node.name);
       setEndNode(node);
       setActiveInput(null);
+    } else if (activeInput === 'waypoint') {
+      updateWaypoint(activeWaypointIndex, { node, query: node.name });
+      setActiveInput(null);
     }
   };
+
+  // Waypoint handlers
+  const updateWaypoint = (index: number, waypoint: Waypoint) => {
+    setWaypoints(prev => prev.map((item, i) => (i === index ? waypoint : item)));
+  };
+
+  const addWaypoint = () => {
+    if (waypoints.length >= MAX_WAYPOINTS) return;
+    setWaypoints(prev => [...prev, { node: null, query: '' }]);
+    setActiveWaypointIndex(waypoints.length);
+    setActiveInput('waypoint');
+  };
+
+  const removeWaypoint = (index: number) => {
+    setWaypoints(prev => prev.filter((_, i) => i !== index));
+    if (activeInput === 'waypoint') setActiveInput(null);
+  };
   
   // Handlers for Node Popup Actions
   const handleSetStart = (node: Node) => {
@@ -258,6 +720,53 @@ export default function NavigationScreen() {
     }
   };
 
+  // Drop a pin on the nearest path and use it as start or destination
+  const handleLongPressMap = (point: { x: number; y: number }) => {
+    const snap = snapToEdge(campusMap.graph, point);
+    if (!snap) {
+      Alert.alert('No path nearby', 'Long-press closer to a path on the map to drop a pin.');
+      return;
+    }
+
+    const pin = createPin(campusMap.graph, snap, String(Date.now()));
+    const applyPin = (apply: (node: Node) => void) => {
+      // Keep only pins still used as a stop
+      setPins([...activePins, pin]);
+      apply(pin.node);
+    };
+    Alert.alert('Dropped pin', pin.node.name, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Set Start', onPress: () => applyPin(handleSetStart) },
+      { text: 'Set Destination', onPress: () => applyPin(handleSetEnd) },
+    ]);
+  };
+
+  const handleToggleLocation = () => {
+    if (showLocation) {
+      setShowLocation(false);
+      return;
+    }
+    if (!campusMap.georeference) {
+      Alert.alert('Location unavailable', `The ${campusMap.name} map has no georeferencing yet.`);
+      return;
+    }
+
+    const simulating = MAINTAINER_TOOLS && simulateLocation;
+    if (simulating && !route) {
+      Alert.alert('Nothing to simulate', 'Choose a route first; the simulated location walks along it.');
+      return;
+    }
+    // Pins are not on any map's graph; place them on the shown map
+    const georeferenceOf = (node: Node) => getCampusMap(mapIdOfNode(node.id) ?? campusMap.id).georeference;
+    // Walks at the profile's speed, so step timing matches the estimates
+    setSimulatedTrack(
+      simulating && route
+        ? fixesAlongPath(nodesToLonLat(route.nodes, georeferenceOf), { speed: mobilityProfile.speed })
+        : null
+    );
+    setShowLocation(true);
+  };
+
   const startNavigation = () => {
     setMode('navigate');
     if (selectedNode) {
@@ -272,7 +781,11 @@ export default function NavigationScreen() {
     setMode('explore');
     setStartNode(null);
     setEndNode(null);
-    setRoutePath([]);
+    setWaypoints([]);
+    setOptimizeStopOrder(false);
+    setRoutes([]);
+    setMultiStopRoute(null);
+    setSelectedRouteIndex(0);
     setStartQuery('');
     setEndQuery('');
     setActiveInput(null);
@@ -314,10 +827,10 @@ export default function NavigationScreen() {
       door: markerVisibility.showEntrances,
       arrow: markerVisibility.showEntrances,
       handicap_sign: markerVisibility.showWheelchairAccess,
-      ladder: !routePreferences.disallowStairs,
+      ladder: !stairsExcluded,
       triangle: markerVisibility.showEntrances,
     } as const;
-  }, [markerVisibility, routePreferences.disallowStairs]);
+  }, [markerVisibility, stairsExcluded]);
 
   return (
     <ThemedView style={styles.container}>
@@ -357,6 +870,27 @@ export default function NavigationScreen() {
                   onFocus={() => setActiveInput('start')}
                 />
               </View>
+              {waypoints.map((waypoint, index) => (
+                <View key={index}>
+                  <View style={styles.inputDivider} />
+                  <View style={styles.inputRow}>
+                    <View style={[styles.dot, { backgroundColor: '#FD9644' }]} />
+                    <TextInput
+                      style={styles.navInput}
+                      placeholder={`Stop ${index + 1}`}
+                      value={waypoint.query}
+                      onChangeText={query => updateWaypoint(index, { node: null, query })}
+                      onFocus={() => {
+                        setActiveWaypointIndex(index);
+                        setActiveInput('waypoint');
+                      }}
+                    />
+                    <TouchableOpacity onPress={() => removeWaypoint(index)} style={styles.removeStopButton}>
+                      <IconSymbol name="xmark.circle.fill" size={18} color="#9BA1A6" />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
               <View style={styles.inputDivider} />
               <View style={styles.inputRow}>
                 <View style={[styles.dot, { backgroundColor: 'red' }]} />
@@ -368,7 +902,42 @@ export default function NavigationScreen() {
                   onFocus={() => setActiveInput('end')}
                 />
               </View>
+              <View style={styles.stopActionsRow}>
+                {waypoints.length < MAX_WAYPOINTS && (
+                  <TouchableOpacity onPress={addWaypoint} style={styles.stopAction}>
+                    <IconSymbol name="plus.circle" size={16} color="#4A90E2" />
+                    <ThemedText style={styles.stopActionText}>Add stop</ThemedText>
+                  </TouchableOpacity>
+                )}
+                {waypoints.length >= 2 && (
+                  <TouchableOpacity
+                    onPress={() => setOptimizeStopOrder(!optimizeStopOrder)}
+                    style={[styles.stopAction, optimizeStopOrder && styles.stopActionActive]}
+                  >
+                    <IconSymbol name="shuffle" size={16} color={optimizeStopOrder ? '#fff' : '#4A90E2'} />
+                    <ThemedText style={[styles.stopActionText, optimizeStopOrder && styles.stopActionTextActive]}>
+                      Optimize order
+                    </ThemedText>
+                  </TouchableOpacity>
+                )}
+              </View>
+              {multiStopRoute?.reordered && (
+                <ThemedText style={styles.stopOrderText} numberOfLines={2}>
+                  Visiting: {multiStopRoute.stops.slice(1, -1).map(stop => stop.name).join(' → ')}
+                </ThemedText>
+              )}
             </View>
+            <TouchableOpacity
+              onPress={() => setVoiceGuidance(!voiceGuidance)}
+              style={styles.muteButton}
+              accessibilityLabel={voiceGuidance ? 'Mute voice guidance' : 'Turn on voice guidance'}
+            >
+              <IconSymbol
+                name={voiceGuidance ? 'speaker.wave.2.fill' : 'speaker.slash.fill'}
+                size={22}
+                color={voiceGuidance ? '#4A90E2' : '#9BA1A6'}
+              />
+            </TouchableOpacity>
           </View>
         )}
 
@@ -381,6 +950,16 @@ export default function NavigationScreen() {
                   key={node.id} 
                   style={styles.suggestionItem}
                   onPress={() => handleSelectSuggestion(node)}
+                  accessibilityRole="button"
+                  accessibilityHint={
+                    activeInput === 'start'
+                      ? 'Sets the start'
+                      : activeInput === 'end'
+                        ? 'Sets the destination'
+                        : activeInput === 'waypoint'
+                          ? 'Sets the stop'
+                          : 'Shows the place on the map'
+                  }
                 >
                   <IconSymbol name="mappin.circle.fill" size={16} color="#9BA1A6" style={{marginRight: 8}} />
                   <ThemedText style={styles.suggestionText}>{node.name}</ThemedText>
@@ -416,7 +995,7 @@ export default function NavigationScreen() {
             <View style={styles.mapWrapper}>
               <View style={{ width: scaledMapDimensions.width, height: scaledMapDimensions.height }}>
                 <Image
-                  source={mapSource}
+                  source={campusMap.image}
                   style={styles.mapImage}
                   resizeMode="contain"
                 />
@@ -425,27 +1004,38 @@ export default function NavigationScreen() {
               {scaledMapDimensions.width > 0 && (
                 <View style={[styles.overlayWrapper, { width: scaledMapDimensions.width, height: scaledMapDimensions.height }]}>
                   <GraphOverlay 
-                    data={displayGraphData}
+                    data={mapGraphData}
                     width={scaledMapDimensions.width}
                     height={scaledMapDimensions.height}
-                    originalWidth={GRAPH_WIDTH}
-                    originalHeight={GRAPH_HEIGHT}
-                    offsetX={GRAPH_X_OFFSET}
-                    offsetY={GRAPH_Y_OFFSET}
+                    transform={campusMap.transform}
                     highlightedPath={routePath}
+                    highlightColor={ROUTE_COLORS[selectedRouteIndex]}
+                    legPaths={multiStopRoute?.legs.map(leg => leg.nodes.map(node => node.id))}
+                    alternativePaths={routes
+                      .map((option, index) => ({
+                        path: option.nodes.map(node => node.id),
+                        color: ROUTE_COLORS[index],
+                      }))
+                      .filter((_, index) => index !== selectedRouteIndex)}
+                    floor={visibleFloor}
                     highlightedNodes={[
                       ...(selectedNode && mode === 'explore' ? [selectedNode.id] : []),
                       ...(startNode ? [startNode.id] : []),
                       ...(endNode ? [endNode.id] : []),
+                      ...waypointNodes.map(node => node.id),
                       ...(hoveredNodeId ? [hoveredNodeId] : []),
-                      ...(routePath[currentStepIndex] ? [routePath[currentStepIndex]] : []),
+                      ...(currentStepNodeId ? [currentStepNodeId] : []),
                     ]}
-                    currentStepNodeId={routePath[currentStepIndex] ?? null}
+                    currentStepNodeId={currentStepNodeId}
+                    stepNumbers={stepNumbers}
+                    stepCount={instructions.length}
                     markerVisibility={markerVisibility}
                     iconScale={zoomLevel}
                     showOnlyRoute={showOnlyRoute}
                     onSetStart={handleSetStart}
                     onSetEnd={handleSetEnd}
+                    onLongPressMap={handleLongPressMap}
+                    userPosition={userPosition}
                   />
                 </View>
               )}
@@ -470,6 +1060,28 @@ export default function NavigationScreen() {
           </TouchableOpacity>
         )}
         
+        {/* Show my location */}
+        <TouchableOpacity
+          style={[styles.locateButton, showLocation && styles.locateButtonActive]}
+          onPress={handleToggleLocation}
+        >
+          <IconSymbol name="scope" size={22} color={showLocation ? '#fff' : '#4A90E2'} />
+        </TouchableOpacity>
+
+        {/* Campus Switcher (only when more than one map is registered) */}
+        {CAMPUS_MAPS.length > 1 && (
+          <View style={styles.campusSwitcherContainer}>
+            <CampusSwitcher campuses={CAMPUS_MAPS} campusId={campusMap.id} onChange={setVisibleMapId} />
+          </View>
+        )}
+
+        {/* Floor Picker (only for maps with more than one floor) */}
+        {floors.length > 1 && (
+          <View style={styles.floorPickerContainer}>
+            <FloorPicker floors={floors} floor={visibleFloor} onChange={setVisibleFloor} />
+          </View>
+        )}
+
         {/* Zoom Controls */}
         <View style={styles.zoomControls}>
           <TouchableOpacity 
@@ -499,6 +1111,219 @@ export default function NavigationScreen() {
 
       {/* Info Card / Legend */}
       <View style={styles.bottomPanel}>
+        {/* Route options */}
+        {routes.length > 1 && (
+          <View style={styles.routeOptionsRow}>
+            {routes.map((option, index) => {
+              const isSelected = index === selectedRouteIndex;
+              const extra = routes[0].summary.totalDistance > 0
+                ? option.summary.totalDistance / routes[0].summary.totalDistance - 1
+                : 0;
+              return (
+                <TouchableOpacity
+                  key={index}
+                  style={[
+                    styles.routeOption,
+                    isSelected && { borderColor: ROUTE_COLORS[index] },
+                  ]}
+                  activeOpacity={0.75}
+                  onPress={() => {
+                    setSelectedRouteIndex(index);
+                    setCurrentStepIndex(0);
+                  }}
+                >
+                  <View style={styles.routeOptionHeader}>
+                    <View style={[styles.dot, { backgroundColor: ROUTE_COLORS[index] }]} />
+                    <ThemedText style={styles.routeOptionTitle}>
+                      {index === 0 ? 'Best' : `Option ${index + 1}`}
+                    </ThemedText>
+                  </View>
+                  <ThemedText style={styles.routeOptionDetail}>
+                    {index === 0
+                      ? formatDistance(toMeters(option.summary.totalDistance), distanceUnits)
+                      : `+${Math.round(extra * 100)}%`}
+                    {' · '}
+                    {Math.round(option.summary.outdoorShare * 100)}% out
+                  </ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+
+        {/* Route summary */}
+        {route && route.segments.length > 0 && (
+          <ThemedText style={styles.routeEtaText}>
+            {formatTravel(routeEstimate, distanceUnits, mobilityProfile)}
+          </ThemedText>
+        )}
+        {route && route.segments.length > 0 && (
+          <View style={styles.routeSummaryCard}>
+            <View style={styles.routeSummaryItem}>
+              <ThemedText style={styles.routeSummaryValue}>
+                {formatDistance(routeEstimate.meters, distanceUnits)}
+              </ThemedText>
+              <ThemedText style={styles.routeSummaryLabel}>Distance</ThemedText>
+            </View>
+            <View style={styles.routeSummaryItem}>
+              <ThemedText style={styles.routeSummaryValue}>{route.summary.elevatorCount}</ThemedText>
+              <ThemedText style={styles.routeSummaryLabel}>
+                {route.summary.elevatorCount === 1 ? 'Elevator' : 'Elevators'}
+              </ThemedText>
+            </View>
+            <View style={styles.routeSummaryItem}>
+              <ThemedText style={styles.routeSummaryValue}>
+                {Math.round(route.summary.outdoorShare * 100)}%
+              </ThemedText>
+              <ThemedText style={styles.routeSummaryLabel}>Outdoors</ThemedText>
+            </View>
+            <View style={styles.routeSummaryItem}>
+              <ThemedText
+                style={[
+                  styles.routeSummaryValue,
+                  route.summary.boundaryCrossings > 0 && styles.routeSummaryValueWarning,
+                ]}
+              >
+                {route.summary.boundaryCrossings}
+              </ThemedText>
+              <ThemedText style={styles.routeSummaryLabel}>Leaves campus</ThemedText>
+            </View>
+            {route.summary.restStops.length > 0 && (
+              <View style={styles.routeSummaryItem}>
+                <ThemedText style={styles.routeSummaryValue}>{route.summary.restStops.length}</ThemedText>
+                <ThemedText style={styles.routeSummaryLabel}>Rest stops</ThemedText>
+              </View>
+            )}
+          </View>
+        )}
+
+        {/* Full itinerary */}
+        {instructions.length > 0 && (
+          <View style={styles.itineraryCard}>
+            <View style={styles.itineraryHeader}>
+              <TouchableOpacity
+                style={styles.itineraryHeaderToggle}
+                activeOpacity={0.75}
+                onPress={() => setShowItinerary(!showItinerary)}
+                accessibilityRole="button"
+                accessibilityState={{ expanded: showItinerary }}
+              >
+                <ThemedText style={styles.itineraryTitle}>
+                  {instructions.length} {instructions.length === 1 ? 'step' : 'steps'}
+                </ThemedText>
+                <ThemedText style={styles.itineraryToggle}>{showItinerary ? 'Hide' : 'Show all'}</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.routeTextButton}
+                activeOpacity={0.75}
+                onPress={() => setShowRouteText(true)}
+                accessibilityRole="button"
+                accessibilityLabel="Route as text"
+                accessibilityHint="Lists every step on its own screen"
+              >
+                <IconSymbol name="list.bullet" size={16} color="#4A90E2" />
+                <ThemedText style={styles.itineraryToggle}>As text</ThemedText>
+              </TouchableOpacity>
+            </View>
+            {showItinerary && (
+              <ScrollView style={styles.itineraryList} nestedScrollEnabled>
+                {instructions.map((instruction, index) => {
+                  const isCurrent = index === currentStepIndex;
+                  return (
+                    <TouchableOpacity
+                      key={index}
+                      style={[styles.itineraryRow, isCurrent && styles.itineraryRowCurrent]}
+                      activeOpacity={0.75}
+                      onPress={() => setCurrentStepIndex(index)}
+                    >
+                      <ThemedText style={styles.itineraryIndex}>{index + 1}</ThemedText>
+                      <View style={styles.itineraryBody}>
+                        <ThemedText style={styles.itineraryText}>{instruction.text}</ThemedText>
+                        {instruction.distance > 0 && (
+                          <ThemedText style={styles.itineraryDistance}>
+                            {formatTravel(
+                              estimateInstruction(instruction, mobilityProfile),
+                              distanceUnits,
+                              mobilityProfile
+                            )}
+                          </ThemedText>
+                        )}
+                      </View>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+            )}
+          </View>
+        )}
+
+        {/* No route: explain why and offer to lift constraints */}
+        {noRouteDiagnosis && (
+          <View style={styles.diagnosisCard}>
+            <View style={styles.closureRow}>
+              <IconSymbol name="exclamationmark.circle.fill" size={16} color="#FF4B4B" />
+              <ThemedText style={styles.diagnosisTitle}>
+                {waypointNodes.length > 0
+                  ? `No route for stop ${noRouteDiagnosis.leg} → ${noRouteDiagnosis.leg + 1}. `
+                  : 'No route. '}
+                {explainDiagnosis(noRouteDiagnosis.diagnosis)}
+              </ThemedText>
+            </View>
+            {diagnosisBlockers.map(blocker => (
+              <ThemedText key={blocker} style={styles.diagnosisBlocker}>
+                • {blocker}
+              </ThemedText>
+            ))}
+            {noRouteDiagnosis.diagnosis.relaxation && (
+              <TouchableOpacity
+                style={styles.diagnosisAction}
+                activeOpacity={0.75}
+                onPress={() => handleRelax(noRouteDiagnosis.diagnosis.relaxation!)}
+              >
+                <ThemedText style={styles.diagnosisActionText}>
+                  {noRouteDiagnosis.diagnosis.relaxation.allowStairs &&
+                  noRouteDiagnosis.diagnosis.relaxation.ignoreClosures
+                    ? 'Allow stairs and closures'
+                    : noRouteDiagnosis.diagnosis.relaxation.allowStairs
+                      ? 'Allow stairs for this trip'
+                      : 'Ignore closures for this trip'}
+                </ThemedText>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {/* Constraints lifted for this trip */}
+        {route && (relaxation.allowStairs || relaxation.ignoreClosures) && (
+          <View style={styles.closureCard}>
+            <View style={styles.closureRow}>
+              <IconSymbol name="exclamationmark.circle" size={16} color="#FD9644" />
+              <ThemedText style={styles.closureText}>
+                {relaxation.allowStairs && relaxation.ignoreClosures
+                  ? 'This route uses stairs and may pass reported closures.'
+                  : relaxation.allowStairs
+                    ? 'This route uses stairs.'
+                    : 'This route may pass reported closures.'}
+              </ThemedText>
+              <TouchableOpacity onPress={() => setRelaxation({})}>
+                <ThemedText style={styles.relaxUndoText}>Undo</ThemedText>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {/* Reported closures affecting the route */}
+        {closureWarnings.length > 0 && (
+          <View style={styles.closureCard}>
+            {closureWarnings.map(warning => (
+              <View key={warning} style={styles.closureRow}>
+                <IconSymbol name="exclamationmark.circle" size={16} color="#FD9644" />
+                <ThemedText style={styles.closureText}>{warning}</ThemedText>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Accessibility settings (synced with Settings tab) */}
         <View style={styles.legendCard}>
           <View style={styles.legendRow}>
@@ -565,9 +1390,28 @@ export default function NavigationScreen() {
         </View>
       </View>
 
+      {route && (
+        <RouteTextView
+          visible={showRouteText}
+          destination={route.nodes[route.nodes.length - 1].name}
+          instructions={instructions}
+          currentStepIndex={currentStepIndex}
+          summary={[
+            formatTravel(routeEstimate, distanceUnits, mobilityProfile),
+            `${route.summary.elevatorCount} ${route.summary.elevatorCount === 1 ? 'elevator' : 'elevators'}`,
+            `${Math.round(route.summary.outdoorShare * 100)}% outdoors`,
+          ].join(', ')}
+          warnings={closureWarnings}
+          units={distanceUnits}
+          profile={mobilityProfile}
+          onSelectStep={setCurrentStepIndex}
+          onClose={() => setShowRouteText(false)}
+        />
+      )}
+
       {/* Next Step Bar */}
       <View style={styles.nextStepContainer}>
-        {routePath.length > 1 && currentStepIndex > 0 ? (
+        {instructions.length > 1 && currentStepIndex > 0 ? (
           <TouchableOpacity style={styles.nextPrevButton} onPress={() => setCurrentStepIndex(i => Math.max(i - 1, 0))}>
             <IconSymbol name="chevron.left" size={18} color="#ECEDEE" />
           </TouchableOpacity>
@@ -575,16 +1419,37 @@ export default function NavigationScreen() {
           <View style={styles.nextPrevButtonPlaceholder} />
         )}
 
-        <View style={styles.nextStepTextWrapper}>
+        {/* Tap to hear the step again */}
+        <TouchableOpacity
+          style={styles.nextStepTextWrapper}
+          activeOpacity={0.75}
+          onPress={repeatInstruction}
+          disabled={!voiceGuidance || !currentInstruction}
+          accessibilityHint={voiceGuidance ? 'Repeats the instruction aloud' : undefined}
+        >
           <ThemedText style={styles.nextStepText}>
-            {routePath.length > 0
-              ? `Next Step: Continue to ${nodeById.get(routePath[currentStepIndex])?.name ?? 'destination'}`
-              : 'Select a start and destination'}
+            {currentInstruction
+              ? `Next Step: ${currentInstruction.text}`
+              : noRouteDiagnosis
+                ? 'No route found'
+                : 'Select a start and destination'}
           </ThemedText>
-        </View>
+          {offRoute && (
+            <ThemedText style={styles.offRouteText}>Off route. Head back to a path to get a new route.</ThemedText>
+          )}
+          {currentInstruction && currentInstruction.distance > 0 && (
+            <ThemedText style={styles.nextStepDetail}>
+              {formatTravel(
+                estimateInstruction(currentInstruction, mobilityProfile),
+                distanceUnits,
+                mobilityProfile
+              )}
+            </ThemedText>
+          )}
+        </TouchableOpacity>
 
-        {routePath.length > 1 && currentStepIndex < routePath.length - 1 ? (
-          <TouchableOpacity style={styles.nextPrevButton} onPress={() => setCurrentStepIndex(i => Math.min(i + 1, routePath.length - 1))}>
+        {instructions.length > 1 && currentStepIndex < instructions.length - 1 ? (
+          <TouchableOpacity style={styles.nextPrevButton} onPress={() => setCurrentStepIndex(i => Math.min(i + 1, instructions.length - 1))}>
             <IconSymbol name="chevron.right" size={18} color="#ECEDEE" />
           </TouchableOpacity>
         ) : (
@@ -640,6 +1505,11 @@ const styles = StyleSheet.create({
     marginRight: 8,
     marginTop: 4,
   },
+  muteButton: {
+    padding: 8,
+    marginLeft: 8,
+    marginTop: 4,
+  },
   navInputs: {
     flex: 1,
     backgroundColor: '#2A3441',
@@ -670,6 +1540,40 @@ const styles = StyleSheet.create({
     color: '#ECEDEE',
     padding: 4,
   },
+  removeStopButton: {
+    padding: 4,
+  },
+  stopActionsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 6,
+    marginLeft: 20,
+  },
+  stopAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+  },
+  stopActionActive: {
+    backgroundColor: '#4A90E2',
+  },
+  stopActionText: {
+    fontSize: 13,
+    color: '#4A90E2',
+    fontWeight: '600',
+  },
+  stopActionTextActive: {
+    color: '#fff',
+  },
+  stopOrderText: {
+    fontSize: 12,
+    color: '#9BA1A6',
+    marginTop: 4,
+    marginLeft: 24,
+  },
   showRouteButton: {
     position: 'absolute',
     top: 15,
@@ -772,6 +1676,37 @@ const styles = StyleSheet.create({
     pointerEvents: 'box-none',
   },
   
+  locateButton: {
+    position: 'absolute',
+    right: 15,
+    bottom: 15,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(42, 52, 65, 0.95)',
+    borderWidth: 1,
+    borderColor: '#4A90E2',
+    zIndex: 999,
+  },
+  locateButtonActive: {
+    backgroundColor: '#4A90E2',
+  },
+  campusSwitcherContainer: {
+    position: 'absolute',
+    top: 15,
+    left: 15,
+    zIndex: 999,
+  },
+  floorPickerContainer: {
+    position: 'absolute',
+    left: 15,
+    top: '50%',
+    transform: [{ translateY: -75 }],
+    zIndex: 999,
+  },
+
   // Zoom Controls
   zoomControls: {
     position: 'absolute',
@@ -823,6 +1758,204 @@ const styles = StyleSheet.create({
     borderTopColor: '#2A3441',
     zIndex: 10,
   },
+  routeOptionsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginHorizontal: 16,
+    marginTop: 12,
+  },
+  routeOption: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    backgroundColor: '#2A3441',
+  },
+  routeOptionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  routeOptionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ECEDEE',
+  },
+  routeOptionDetail: {
+    fontSize: 11,
+    color: '#9BA1A6',
+    marginTop: 2,
+  },
+  routeEtaText: {
+    marginHorizontal: 16,
+    marginTop: 12,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ECEDEE',
+  },
+  routeSummaryCard: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginHorizontal: 16,
+    marginTop: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    borderRadius: 12,
+    backgroundColor: '#2A3441',
+  },
+  routeSummaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  routeSummaryValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ECEDEE',
+  },
+  routeSummaryValueWarning: {
+    color: '#FD9644',
+  },
+  routeSummaryLabel: {
+    fontSize: 11,
+    color: '#9BA1A6',
+    marginTop: 2,
+  },
+  closureCard: {
+    marginHorizontal: 16,
+    marginTop: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: '#2A3441',
+    borderLeftWidth: 3,
+    borderLeftColor: '#FD9644',
+  },
+  closureRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 4,
+  },
+  closureText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 13,
+    lineHeight: 18,
+    color: '#ECEDEE',
+  },
+  itineraryCard: {
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderRadius: 12,
+    backgroundColor: '#2A3441',
+    overflow: 'hidden',
+  },
+  itineraryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  itineraryHeaderToggle: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  routeTextButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginLeft: 16,
+  },
+  itineraryTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ECEDEE',
+  },
+  itineraryToggle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4A90E2',
+  },
+  itineraryList: {
+    maxHeight: 220,
+    borderTopWidth: 1,
+    borderTopColor: '#3A4451',
+  },
+  itineraryRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  itineraryRowCurrent: {
+    backgroundColor: '#3A4451',
+  },
+  itineraryIndex: {
+    width: 22,
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#9BA1A6',
+  },
+  itineraryBody: {
+    flex: 1,
+  },
+  itineraryText: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: '#ECEDEE',
+  },
+  itineraryDistance: {
+    fontSize: 12,
+    lineHeight: 16,
+    color: '#9BA1A6',
+  },
+  diagnosisCard: {
+    marginHorizontal: 16,
+    marginTop: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: '#2A3441',
+    borderLeftWidth: 3,
+    borderLeftColor: '#FF4B4B',
+  },
+  diagnosisTitle: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 13,
+    lineHeight: 18,
+    fontWeight: '600',
+    color: '#ECEDEE',
+  },
+  diagnosisBlocker: {
+    marginLeft: 24,
+    fontSize: 12,
+    lineHeight: 18,
+    color: '#9BA1A6',
+  },
+  diagnosisAction: {
+    alignSelf: 'flex-start',
+    marginTop: 8,
+    marginLeft: 24,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#3A4451',
+  },
+  diagnosisActionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FD9644',
+  },
+  relaxUndoText: {
+    marginLeft: 8,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4A90E2',
+  },
   legendCard: {
     backgroundColor: '#1D2535',
     paddingVertical: 12,
@@ -920,6 +2053,19 @@ const styles = StyleSheet.create({
     paddingHorizontal: 8,
     flexWrap: 'wrap',
   },
+  nextStepDetail: {
+    textAlign: 'center',
+    color: '#9BA1A6',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  offRouteText: {
+    textAlign: 'center',
+    color: '#FD9644',
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 2,
+  },
   nextStepTextWrapper: {
     flex: 1,
     alignItems: 'center',
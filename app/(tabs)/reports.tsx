@@ -1,11 +1,16 @@
+import { CampusSwitcher } from '@/components/GraphOverlay';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { db } from '@/config/firebase';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { addDoc, collection, deleteDoc, doc, getDocs, orderBy, query, updateDoc } from 'firebase/firestore';
-import { useEffect, useRef, useState } from 'react';
+import { CAMPUS_MAPS, DEFAULT_MAP, getCampusMap } from '@/constants/map';
+import { resolveImageSize } from '@/utils/image-size';
+import { containRect, Point } from '@/utils/map-coordinates';
+import { fetchReports, Report, ReportTag } from '@/utils/reports';
+import { addDoc, collection, deleteDoc, doc, updateDoc } from 'firebase/firestore';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   Alert,
   Animated,
@@ -22,17 +27,6 @@ import {
   View
 } from 'react-native';
 
-interface Report {
-  id: string;
-  description: string;
-  tags: 'construction' | 'broken';
-  createdBy: string;
-  firebaseDocId?: string; // Firestore document ID for updates/deletes
-  // Keep x and y for map display
-  x?: number;
-  y?: number;
-}
-
 interface DraggableMarkerProps {
   report: Report;
   onDragEnd: (id: string, newX: number, newY: number) => void;
@@ -137,7 +131,7 @@ export default function ReportsScreen() {
     y: number;
   } | null>(null);
   const [editingReport, setEditingReport] = useState<Report | null>(null);
-  const [selectedTag, setSelectedTag] = useState<'construction' | 'broken' | null>(null);
+  const [selectedTag, setSelectedTag] = useState<ReportTag | null>(null);
   const [description, setDescription] = useState('');
   const [isSaving, setIsSaving] = useState(false);
   const [containerLayout, setContainerLayout] = useState<{ x: number; y: number; width: number; height: number } | null>(null);
@@ -146,6 +140,24 @@ export default function ReportsScreen() {
   const [currentUserId, setCurrentUserId] = useState<string>('');
   const [zoomLevel, setZoomLevel] = useState(1);
   const colorScheme = useColorScheme();
+  const [mapId, setMapId] = useState(DEFAULT_MAP.id);
+  const campusMap = getCampusMap(mapId);
+  const mapImageSize = useMemo(() => resolveImageSize(campusMap.image), [campusMap]);
+  // Reports saved before there were several maps belong to the default one
+  const mapReports = reports.filter(report => (report.mapId ?? DEFAULT_MAP.id) === campusMap.id);
+
+  // Convert a container-relative point to a fraction of the drawn map image
+  const toImagePosition = useCallback(
+    (x: number, y: number): Point | undefined => {
+      if (!imageLayout) return undefined;
+      const drawn = containRect(imageLayout.width, imageLayout.height, mapImageSize.width, mapImageSize.height);
+      return {
+        x: (x - imageLayout.x - drawn.x) / drawn.width,
+        y: (y - imageLayout.y - drawn.y) / drawn.height,
+      };
+    },
+    [imageLayout, mapImageSize]
+  );
 
   const MIN_ZOOM = 0.5;
   const MAX_ZOOM = 6;
@@ -172,26 +184,7 @@ export default function ReportsScreen() {
   useEffect(() => {
     const loadReports = async () => {
       try {
-        const reportsQuery = query(
-          collection(db, 'reports'),
-          orderBy('createdAt', 'desc')
-        );
-        const querySnapshot = await getDocs(reportsQuery);
-        
-        const loadedReports: Report[] = [];
-        querySnapshot.forEach((document) => {
-          const data = document.data();
-          loadedReports.push({
-            id: data.id,
-            description: data.description,
-            tags: data.tags,
-            createdBy: data.createdBy || '',
-            firebaseDocId: document.id, // Store Firestore doc ID
-            x: data.location?.x,
-            y: data.location?.y,
-          });
-        });
-        
+        const loadedReports = await fetchReports();
         setReports(loadedReports);
         console.log(`Loaded ${loadedReports.length} reports from Firebase`);
       } catch (error) {
@@ -205,6 +198,40 @@ export default function ReportsScreen() {
     loadReports();
   }, []);
 
+  // Reports saved before image positions were stored have only the screen x/y
+  // their markers are drawn at here. Convert them the same way as new reports
+  // and save the result once, so navigation can snap them onto the graph.
+  const migratedReportIds = useRef(new Set<string>());
+  useEffect(() => {
+    if (!imageLayout) return;
+    const positions = new Map<string, Point>();
+    reports.forEach(report => {
+      if (report.imagePosition || migratedReportIds.current.has(report.id)) return;
+      if ((report.mapId ?? DEFAULT_MAP.id) !== campusMap.id) return;
+      if (typeof report.x !== 'number' || typeof report.y !== 'number') return;
+      const imagePosition = toImagePosition(report.x, report.y);
+      if (imagePosition) positions.set(report.id, imagePosition);
+    });
+    if (positions.size === 0) return;
+
+    positions.forEach((_, id) => migratedReportIds.current.add(id));
+    setReports(prevReports =>
+      prevReports.map(report => {
+        const imagePosition = positions.get(report.id);
+        return imagePosition ? { ...report, imagePosition, mapId: campusMap.id } : report;
+      })
+    );
+    reports.forEach(report => {
+      const imagePosition = positions.get(report.id);
+      if (!imagePosition || !report.firebaseDocId) return;
+      updateDoc(doc(db, 'reports', report.firebaseDocId), {
+        'location.imageX': imagePosition.x,
+        'location.imageY': imagePosition.y,
+        'location.mapId': campusMap.id,
+      }).catch(error => console.error('Error saving report map position:', error));
+    });
+  }, [campusMap.id, imageLayout, reports, toImagePosition]);
+
   const handleMapPress = (event: GestureResponderEvent) => {
     console.log('Map pressed!');
     if (!containerLayout || !imageLayout) {
@@ -286,6 +313,8 @@ export default function ReportsScreen() {
       try {
         // Generate a unique ID
         const reportId = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        const createdAt = new Date().toISOString();
+        const imagePosition = toImagePosition(selectedReport.x, selectedReport.y);
         
         // Save to Firebase Firestore
         const docRef = await addDoc(collection(db, 'reports'), {
@@ -293,10 +322,12 @@ export default function ReportsScreen() {
           description: description.trim(),
           tags: selectedTag,
           createdBy: currentUserId,
-          createdAt: new Date().toISOString(),
+          createdAt,
           location: {
             x: selectedReport.x,
             y: selectedReport.y,
+            ...(imagePosition && { imageX: imagePosition.x, imageY: imagePosition.y }),
+            mapId: campusMap.id,
           },
         });
 
@@ -306,7 +337,10 @@ export default function ReportsScreen() {
           description: description.trim(),
           tags: selectedTag,
           createdBy: currentUserId,
+          createdAt,
           firebaseDocId: docRef.id,
+          imagePosition,
+          mapId: campusMap.id,
         x: selectedReport.x,
         y: selectedReport.y,
       };
@@ -397,10 +431,13 @@ export default function ReportsScreen() {
       return;
     }
 
+    // Without a layout the map position cannot be recomputed; keep the previous one
+    const imagePosition = toImagePosition(newX, newY) ?? report.imagePosition;
+
     // Update local state
     setReports(prevReports => 
       prevReports.map(report =>
-        report.id === id ? { ...report, x: newX, y: newY } : report
+        report.id === id ? { ...report, x: newX, y: newY, imagePosition } : report
       )
     );
 
@@ -411,6 +448,10 @@ export default function ReportsScreen() {
         await updateDoc(reportRef, {
           'location.x': newX,
           'location.y': newY,
+          ...(imagePosition && {
+            'location.imageX': imagePosition.x,
+            'location.imageY': imagePosition.y,
+          }),
           updatedAt: new Date().toISOString(),
         });
         console.log('Report position updated in Firebase');
@@ -420,7 +461,7 @@ export default function ReportsScreen() {
       // Revert local state on error
       setReports(prevReports => 
         prevReports.map(r =>
-          r.id === id ? { ...r, x: report.x, y: report.y } : r
+          r.id === id ? { ...r, x: report.x, y: report.y, imagePosition: report.imagePosition } : r
         )
       );
       Alert.alert('Error', 'Failed to update report position.');
@@ -443,6 +484,11 @@ export default function ReportsScreen() {
       <ThemedView style={styles.header}>
         <ThemedText type="title">Report a Location</ThemedText>
         {/* <ThemedText style={styles.subtitle}>To Teachers College</ThemedText> */}
+        {CAMPUS_MAPS.length > 1 && (
+          <View style={styles.campusSwitcher}>
+            <CampusSwitcher campuses={CAMPUS_MAPS} campusId={campusMap.id} onChange={setMapId} />
+          </View>
+        )}
       </ThemedView>
 
       <View 
@@ -478,7 +524,7 @@ export default function ReportsScreen() {
             <View style={styles.mapContentWrapper}>
               <Pressable onPress={handleMapPress} style={styles.mapPressableArea}>
           <Image
-                  source={require('@/assets/images/columbia-ods-map-2.png')}
+                  source={campusMap.image}
             style={styles.mapImage}
             resizeMode="contain"
                   onLayout={(event) => {
@@ -490,7 +536,7 @@ export default function ReportsScreen() {
               </Pressable>
               
               {/* Render report markers - absolutely positioned on top */}
-          {reports.map((report) => (
+          {mapReports.map((report) => (
                 <DraggableMarker
               key={report.id}
                   report={report}
@@ -702,6 +748,9 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#E5E5EA',
   },
+  campusSwitcher: {
+    marginTop: 10,
+  },
   subtitle: {
     fontSize: 14,
     color: '#8E8E93',
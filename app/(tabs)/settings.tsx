@@ -1,20 +1,45 @@
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
+import { MAINTAINER_TOOLS } from '@/constants/maintainer';
 import { useSettings } from '@/context/SettingsContext';
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { HAPTIC_CUES, HAPTIC_PATTERNS } from '@/utils/haptic-cues';
+import { playHapticPattern } from '@/utils/haptics';
+import {
+  CUSTOM_PROFILE_LIMITS,
+  getMobilityProfile,
+  StairHandling,
+  TunableProfileField,
+} from '@/utils/mobility';
+import { stepTextInSystemLanguage, VOICE_VERBOSITY_OPTIONS } from '@/utils/voice-guidance';
 import * as Linking from 'expo-linking';
+import { useRouter } from 'expo-router';
 import { openBrowserAsync } from 'expo-web-browser';
 import { useState } from 'react';
 import { Modal, Pressable, ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
 import { Switch } from 'react-native-paper';
 
+const STAIR_OPTIONS: { value: StairHandling; label: string }[] = [
+  { value: 'allow', label: 'Allow' },
+  { value: 'penalize', label: 'Limit' },
+  { value: 'avoid', label: 'Avoid' },
+];
+
 export default function SettingsScreen() {
   const iconColor = useThemeColor({}, 'icon');
+  const router = useRouter();
   const [showContactModal, setShowContactModal] = useState(false);
 
   // Get settings from context
   const {
+    mobilityProfileId,
+    setMobilityProfileId,
+    customProfile,
+    setCustomProfile,
+    speedOverrides,
+    setSpeedOverride,
+    mobilityProfile,
     standardMobility,
     setStandardMobility,
     caneCrutches,
@@ -31,8 +56,38 @@ export default function SettingsScreen() {
     setMinimizeOutdoorPaths,
     entrances,
     setEntrances,
+    distanceUnits,
+    setDistanceUnits,
+    voiceGuidance,
+    setVoiceGuidance,
+    voiceVerbosity,
+    setVoiceVerbosity,
+    hapticCues,
+    setHapticCues,
+    hapticPatterns,
+    setHapticPattern,
+    simulateLocation,
+    setSimulateLocation,
   } = useSettings();
 
+  // `value` moved one step up or down, within the field's limits
+  const stepValue = (field: TunableProfileField, value: number, direction: 1 | -1) => {
+    const { min, max, step } = CUSTOM_PROFILE_LIMITS[field];
+    const next = Math.round((value + direction * step) * 100) / 100;
+    return Math.min(max, Math.max(min, next));
+  };
+
+  const updateCustomProfile = (field: TunableProfileField, direction: 1 | -1) => {
+    setCustomProfile({ ...customProfile, [field]: stepValue(field, customProfile[field], direction) });
+  };
+
+  // Speed is set for whichever profile is active, and kept when switching away and back
+  const defaultSpeed = getMobilityProfile(mobilityProfileId, customProfile).speed;
+  const speedOverridden = speedOverrides[mobilityProfileId] !== undefined;
+  const updateSpeed = (direction: 1 | -1) => {
+    setSpeedOverride(mobilityProfileId, stepValue('speed', mobilityProfile.speed, direction));
+  };
+
   const handleSaveChanges = () => {
     // TODO: Implement save functionality
     console.log('Saving changes...');
@@ -85,6 +140,43 @@ export default function SettingsScreen() {
     </ThemedView>
   );
 
+  const StepperRow = ({
+    label,
+    field,
+    value = customProfile[field],
+    onStep = direction => updateCustomProfile(field, direction),
+    format = value => String(value),
+  }: {
+    label: string;
+    field: TunableProfileField;
+    /** Defaults to the custom profile's value, stepped with `updateCustomProfile`. */
+    value?: number;
+    onStep?: (direction: 1 | -1) => void;
+    format?: (value: number) => string;
+  }) => {
+    const { min, max } = CUSTOM_PROFILE_LIMITS[field];
+    return (
+      <ThemedView style={styles.settingRow}>
+        <ThemedText style={styles.settingLabel}>{label}</ThemedText>
+        <TouchableOpacity
+          style={[styles.stepperButton, value <= min && styles.stepperButtonDisabled]}
+          onPress={() => onStep(-1)}
+          disabled={value <= min}
+        >
+          <ThemedText style={styles.stepperButtonText}>−</ThemedText>
+        </TouchableOpacity>
+        <ThemedText style={styles.stepperValue}>{format(value)}</ThemedText>
+        <TouchableOpacity
+          style={[styles.stepperButton, value >= max && styles.stepperButtonDisabled]}
+          onPress={() => onStep(1)}
+          disabled={value >= max}
+        >
+          <ThemedText style={styles.stepperButtonText}>+</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+    );
+  };
+
   return (
     <ThemedView style={styles.container}>
       {/* Header */}
@@ -114,6 +206,76 @@ export default function SettingsScreen() {
             value={wheelchairUser}
             onValueChange={setWheelchairUser}
           />
+          <SettingRow
+            label="Custom Profile"
+            value={mobilityProfileId === 'custom'}
+            onValueChange={value => setMobilityProfileId(value ? 'custom' : 'standard')}
+          />
+          <StepperRow
+            label="Speed"
+            field="speed"
+            value={mobilityProfile.speed}
+            onStep={updateSpeed}
+            format={value => `${value.toFixed(1)} m/s`}
+          />
+          {speedOverridden && (
+            <TouchableOpacity
+              style={styles.resetButton}
+              onPress={() => setSpeedOverride(mobilityProfileId, null)}
+              accessibilityRole="button"
+            >
+              <ThemedText style={styles.resetButtonText}>
+                Reset to the profile&apos;s {defaultSpeed.toFixed(1)} m/s
+              </ThemedText>
+            </TouchableOpacity>
+          )}
+
+          {/* Custom profile tuning */}
+          {mobilityProfileId === 'custom' && (
+            <ThemedView style={styles.customProfileCard}>
+              <StepperRow
+                label="Effort per distance"
+                field="distanceMultiplier"
+                format={value => `${value.toFixed(1)}×`}
+              />
+              <ThemedView style={styles.settingRow}>
+                <ThemedText style={styles.settingLabel}>Stairs</ThemedText>
+                {STAIR_OPTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.segmentButton,
+                      customProfile.stairs === option.value && styles.segmentButtonActive,
+                    ]}
+                    onPress={() => setCustomProfile({ ...customProfile, stairs: option.value })}
+                  >
+                    <ThemedText style={styles.segmentButtonText}>{option.label}</ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </ThemedView>
+              {customProfile.stairs === 'penalize' && (
+                <StepperRow label="Stair penalty" field="stairPenalty" />
+              )}
+              <StepperRow
+                label="Ramp preference"
+                field="rampPreference"
+                format={value => (value < 0 ? `Prefer ${-value}` : value > 0 ? `Avoid ${value}` : 'Neutral')}
+              />
+              <StepperRow
+                label="Rest every"
+                field="restInterval"
+                format={value => (value > 0 ? String(value) : 'Never')}
+              />
+              {customProfile.restInterval > 0 && (
+                <StepperRow label="Rest penalty" field="restPenalty" />
+              )}
+              <StepperRow
+                label="Elevator wait"
+                field="elevatorWait"
+                format={value => `${value} s`}
+              />
+            </ThemedView>
+          )}
         </ThemedView>
 
         {/* Divider */}
@@ -149,8 +311,120 @@ export default function SettingsScreen() {
             value={entrances}
             onValueChange={setEntrances}
           />
+          <SettingRow
+            label="Distances in Feet"
+            value={distanceUnits === 'imperial'}
+            onValueChange={value => setDistanceUnits(value ? 'imperial' : 'metric')}
+          />
+        </ThemedView>
+
+        {/* Divider */}
+        <ThemedView style={styles.divider} />
+
+        {/* Voice Guidance Section */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle" style={styles.sectionTitle}>
+            Voice Guidance
+          </ThemedText>
+          <SettingRow
+            label="Speak Route Steps"
+            value={voiceGuidance}
+            onValueChange={setVoiceGuidance}
+          />
+          {voiceGuidance && (
+            <ThemedView style={styles.settingRow}>
+              <ThemedText style={styles.settingLabel}>Detail</ThemedText>
+              {VOICE_VERBOSITY_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.segmentButton, voiceVerbosity === option.value && styles.segmentButtonActive]}
+                  onPress={() => setVoiceVerbosity(option.value)}
+                >
+                  <ThemedText style={styles.segmentButtonText}>{option.label}</ThemedText>
+                </TouchableOpacity>
+              ))}
+            </ThemedView>
+          )}
+          {voiceGuidance && !stepTextInSystemLanguage() && (
+            <ThemedText style={styles.settingNote}>
+              Route steps are written in English only; your system&apos;s voice reads them as written.
+            </ThemedText>
+          )}
+        </ThemedView>
+
+        {/* Divider */}
+        <ThemedView style={styles.divider} />
+
+        {/* Haptic Cues Section */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle" style={styles.sectionTitle}>
+            Haptic Cues
+          </ThemedText>
+          <SettingRow
+            label="Vibrate for Route Cues"
+            value={hapticCues}
+            onValueChange={setHapticCues}
+          />
+          {/* Tapping a pattern moves to the next one and plays it */}
+          {hapticCues &&
+            HAPTIC_CUES.map(({ cue, label }) => {
+              const index = HAPTIC_PATTERNS.findIndex(option => option.value === hapticPatterns[cue]);
+              const next = HAPTIC_PATTERNS[(index + 1) % HAPTIC_PATTERNS.length];
+              return (
+                <ThemedView key={cue} style={styles.settingRow}>
+                  <ThemedText style={styles.settingLabel}>{label}</ThemedText>
+                  <TouchableOpacity
+                    style={[styles.segmentButton, hapticPatterns[cue] !== 'off' && styles.segmentButtonActive]}
+                    onPress={() => {
+                      setHapticPattern(cue, next.value);
+                      playHapticPattern(next.value);
+                    }}
+                    accessibilityRole="button"
+                    accessibilityLabel={`${label}: ${HAPTIC_PATTERNS[index].label}`}
+                    accessibilityHint="Switches to the next pattern and plays it"
+                  >
+                    <ThemedText style={styles.segmentButtonText}>{HAPTIC_PATTERNS[index].label}</ThemedText>
+                  </TouchableOpacity>
+                </ThemedView>
+              );
+            })}
         </ThemedView>
 
+        {/* Maintainer Section: development builds, or builds with EXPO_PUBLIC_MAINTAINER_TOOLS=true */}
+        {MAINTAINER_TOOLS && (
+          <>
+            {/* Divider */}
+            <ThemedView style={styles.divider} />
+
+            <ThemedView style={styles.section}>
+              <ThemedText type="subtitle" style={styles.sectionTitle}>
+                Maintainer
+              </ThemedText>
+              <SettingRow
+                label="Simulate Location Along Route"
+                value={simulateLocation}
+                onValueChange={setSimulateLocation}
+              />
+              <ThemedView style={styles.maintainerButtons}>
+                <TouchableOpacity
+                  style={[styles.button, styles.maintainerButton]}
+                  onPress={() => router.push('/graph-editor')}
+                  activeOpacity={0.7}
+                >
+                  <ThemedText style={styles.buttonText}>Graph Editor</ThemedText>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, styles.maintainerButton]}
+                  onPress={() => router.push('/calibration')}
+                  activeOpacity={0.7}
+                >
+                  <ThemedText style={styles.buttonText}>Map Calibration</ThemedText>
+                </TouchableOpacity>
+              </ThemedView>
+            </ThemedView>
+          </>
+        )}
+
         {/* Action Buttons */}
         <ThemedView style={styles.buttonContainer}>
           <TouchableOpacity
@@ -279,6 +553,60 @@ const styles = StyleSheet.create({
     fontSize: 16,
     flex: 1,
   },
+  customProfileCard: {
+    marginTop: 4,
+    paddingLeft: 12,
+    borderLeftWidth: 2,
+    borderLeftColor: '#4A90E2',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#4A90E2',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperButtonDisabled: {
+    backgroundColor: '#3A3A3C',
+  },
+  stepperButtonText: {
+    color: '#FFFFFF',
+    fontSize: 20,
+    lineHeight: 22,
+  },
+  stepperValue: {
+    minWidth: 72,
+    textAlign: 'center',
+    fontSize: 15,
+  },
+  settingNote: {
+    fontSize: 14,
+    color: '#9BA1A6',
+    marginTop: 4,
+  },
+  resetButton: {
+    alignSelf: 'flex-end',
+    paddingVertical: 4,
+  },
+  resetButtonText: {
+    fontSize: 14,
+    color: '#4A90E2',
+  },
+  segmentButton: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    marginLeft: 6,
+    borderRadius: 8,
+    backgroundColor: '#3A4451',
+  },
+  segmentButtonActive: {
+    backgroundColor: '#4A90E2',
+  },
+  segmentButtonText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+  },
   divider: {
     height: 1,
     backgroundColor: '#E5E5EA',
@@ -302,6 +630,13 @@ const styles = StyleSheet.create({
   contactButton: {
     backgroundColor: '#4A90E2',
   },
+  maintainerButtons: {
+    marginTop: 8,
+    gap: 10,
+  },
+  maintainerButton: {
+    backgroundColor: '#3A4451',
+  },
   buttonText: {
     color: '#FFFFFF',
     fontSize: 16,
@@ -19,6 +19,8 @@ export default function RootLayout() {
         <Stack>
           <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
           <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+          <Stack.Screen name="calibration" options={{ title: 'Map Calibration' }} />
+          <Stack.Screen name="graph-editor" options={{ title: 'Graph Editor' }} />
         </Stack>
         <StatusBar style="auto" />
       </ThemeProvider>
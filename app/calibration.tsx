@@ -0,0 +1,344 @@
+import { CampusSwitcher } from '@/components/GraphOverlay';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { MAINTAINER_TOOLS } from '@/constants/maintainer';
+import { CAMPUS_MAPS, DEFAULT_MAP, getCampusMap } from '@/constants/map';
+import { Node } from '@/types/graph';
+import { ControlPoint, MapCalibration } from '@/types/map';
+import { AffineTransform, applyAffine, CalibrationFit, fitCalibration, MIN_CONTROL_POINTS } from '@/utils/affine';
+import { resolveImageSize } from '@/utils/image-size';
+import { containRect, Point } from '@/utils/map-coordinates';
+import { useMemo, useState } from 'react';
+import { Image, Pressable, ScrollView, Share, StyleSheet, TouchableOpacity, View } from 'react-native';
+import Svg, { Circle, G, Line } from 'react-native-svg';
+
+// Taps farther than this (screen points) from every node do not select one
+const NODE_PICK_RADIUS = 24;
+
+// Residuals above this many image pixels are flagged
+const RESIDUAL_WARNING = 5;
+
+const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+/**
+ * Maintainer tool for aligning the graph with the map image. Tap a graph
+ * node, then the place it belongs on the image; after three or more pairs
+ * the fitted transform is previewed live with each pair's residual error.
+ * Export the result into the calibration file next to the map image.
+ */
+export default function CalibrationScreen() {
+  const [mapId, setMapId] = useState(DEFAULT_MAP.id);
+  const campusMap = getCampusMap(mapId);
+  const graphData = campusMap.graph;
+  const imageSize = useMemo(() => resolveImageSize(campusMap.image), [campusMap]);
+
+  const [points, setPoints] = useState<ControlPoint[]>(campusMap.calibration.controlPoints);
+  const [pendingNode, setPendingNode] = useState<Node | null>(null);
+  const [container, setContainer] = useState({ width: 0, height: 0 });
+
+  const handleMapChange = (id: string) => {
+    setMapId(id);
+    setPoints(getCampusMap(id).calibration.controlPoints);
+    setPendingNode(null);
+  };
+
+  const fit = useMemo((): CalibrationFit | null => {
+    if (points.length < MIN_CONTROL_POINTS) return null;
+    try {
+      return fitCalibration(points, imageSize.width, imageSize.height);
+    } catch {
+      // Collinear points; keep previewing the saved calibration
+      return null;
+    }
+  }, [imageSize, points]);
+
+  const transform: AffineTransform = fit?.transform ?? campusMap.transform;
+  const rect = containRect(container.width || 1, container.height || 1, imageSize.width, imageSize.height);
+
+  const toScreen = (fraction: Point) => ({ x: fraction.x * rect.width, y: fraction.y * rect.height });
+  const graphToScreen = (point: Point) => toScreen(applyAffine(transform, point));
+
+  const nodeById = useMemo(() => new Map(graphData.nodes.map(node => [node.id, node])), [graphData]);
+
+  const handleMapPress = (location: Point) => {
+    if (pendingNode) {
+      setPoints([
+        ...points,
+        {
+          nodeId: pendingNode.id,
+          label: pendingNode.name,
+          graph: { x: pendingNode.x, y: pendingNode.y },
+          image: { x: round(location.x / rect.width), y: round(location.y / rect.height) },
+        },
+      ]);
+      setPendingNode(null);
+      return;
+    }
+
+    let nearest: Node | null = null;
+    let nearestDistance = NODE_PICK_RADIUS;
+    graphData.nodes.forEach(node => {
+      const screen = graphToScreen(node);
+      const distance = Math.hypot(screen.x - location.x, screen.y - location.y);
+      if (distance <= nearestDistance) {
+        nearestDistance = distance;
+        nearest = node;
+      }
+    });
+    setPendingNode(nearest);
+  };
+
+  const handleExport = async () => {
+    // Georeferencing is edited by hand in the file; keep it
+    const calibration: MapCalibration = { ...campusMap.calibration, controlPoints: points };
+    await Share.share({ message: JSON.stringify(calibration, null, 2) });
+  };
+
+  if (!MAINTAINER_TOOLS) {
+    return (
+      <ThemedView style={styles.locked}>
+        <ThemedText style={styles.lockedText}>
+          Maintainer tools are only in development builds, or builds made with EXPO_PUBLIC_MAINTAINER_TOOLS=true.
+        </ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const instruction = pendingNode
+    ? `Now tap where "${pendingNode.name}" is on the image.`
+    : 'Tap a graph node to start a control point pair.';
+
+  return (
+    <ThemedView style={styles.container}>
+      <View
+        style={styles.mapArea}
+        onLayout={event => {
+          const { width, height } = event.nativeEvent.layout;
+          setContainer({ width, height });
+        }}
+      >
+        <Image source={campusMap.image} style={StyleSheet.absoluteFill} resizeMode="contain" />
+        {container.width > 0 && (
+          <Pressable
+            style={[styles.imageRect, { left: rect.x, top: rect.y, width: rect.width, height: rect.height }]}
+            onPress={event =>
+              handleMapPress({ x: event.nativeEvent.locationX, y: event.nativeEvent.locationY })
+            }
+          >
+            <Svg width={rect.width} height={rect.height} pointerEvents="none">
+              <G>
+                {graphData.edges.map(edge => {
+                  const source = nodeById.get(edge.sourceId);
+                  const target = nodeById.get(edge.targetId);
+                  if (!source || !target) return null;
+                  const start = graphToScreen(source);
+                  const end = graphToScreen(target);
+                  return (
+                    <Line
+                      key={edge.id}
+                      x1={start.x}
+                      y1={start.y}
+                      x2={end.x}
+                      y2={end.y}
+                      stroke="rgba(74, 144, 226, 0.6)"
+                      strokeWidth={1}
+                    />
+                  );
+                })}
+                {graphData.nodes.map(node => {
+                  const { x, y } = graphToScreen(node);
+                  const isPending = pendingNode?.id === node.id;
+                  return (
+                    <Circle
+                      key={node.id}
+                      cx={x}
+                      cy={y}
+                      r={isPending ? 6 : 3}
+                      fill={isPending ? '#FD9644' : '#4A90E2'}
+                    />
+                  );
+                })}
+                {/* Residual of each pair: from where the fit puts the node to where it was tapped */}
+                {points.map((point, index) => {
+                  const actual = toScreen(point.image);
+                  const predicted = graphToScreen(point.graph);
+                  return (
+                    <G key={`point-${index}`}>
+                      <Line
+                        x1={predicted.x}
+                        y1={predicted.y}
+                        x2={actual.x}
+                        y2={actual.y}
+                        stroke="#FF4B4B"
+                        strokeWidth={2}
+                      />
+                      <Circle cx={actual.x} cy={actual.y} r={5} fill="none" stroke="#FF4B4B" strokeWidth={2} />
+                    </G>
+                  );
+                })}
+              </G>
+            </Svg>
+          </Pressable>
+        )}
+      </View>
+
+      <View style={styles.panel}>
+        {CAMPUS_MAPS.length > 1 && (
+          <CampusSwitcher campuses={CAMPUS_MAPS} campusId={campusMap.id} onChange={handleMapChange} />
+        )}
+        <ThemedText style={styles.instruction}>{instruction}</ThemedText>
+        <ThemedText style={styles.fitSummary}>
+          {fit
+            ? `Fit error: ${fit.rms.toFixed(1)} px RMS over ${points.length} points`
+            : points.length < MIN_CONTROL_POINTS
+              ? `Add at least ${MIN_CONTROL_POINTS} pairs to solve (have ${points.length}).`
+              : 'Points lie on one line; add one off that line.'}
+        </ThemedText>
+
+        <ScrollView style={styles.pointList}>
+          {points.map((point, index) => {
+            const residual = fit?.residuals[index];
+            return (
+              <View key={`row-${index}`} style={styles.pointRow}>
+                <ThemedText style={styles.pointLabel} numberOfLines={1}>
+                  {point.label ?? `(${point.graph.x}, ${point.graph.y})`}
+                </ThemedText>
+                {residual !== undefined && (
+                  <ThemedText
+                    style={[styles.residual, residual > RESIDUAL_WARNING && styles.residualHigh]}
+                  >
+                    {residual.toFixed(1)} px
+                  </ThemedText>
+                )}
+                <TouchableOpacity
+                  style={styles.removeButton}
+                  onPress={() => setPoints(points.filter((_, i) => i !== index))}
+                >
+                  <ThemedText style={styles.removeButtonText}>×</ThemedText>
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+        </ScrollView>
+
+        <View style={styles.actions}>
+          {pendingNode && (
+            <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={() => setPendingNode(null)}>
+              <ThemedText style={styles.buttonText}>Cancel Pair</ThemedText>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.button, styles.secondaryButton]}
+            onPress={() => {
+              setPoints(campusMap.calibration.controlPoints);
+              setPendingNode(null);
+            }}
+          >
+            <ThemedText style={styles.buttonText}>Reset</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.button, !fit && styles.buttonDisabled]}
+            onPress={handleExport}
+            disabled={!fit}
+          >
+            <ThemedText style={styles.buttonText}>Export</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1D2535',
+  },
+  locked: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  lockedText: {
+    color: '#9BA1A6',
+    fontSize: 15,
+    textAlign: 'center',
+  },
+  mapArea: {
+    flex: 1,
+  },
+  imageRect: {
+    position: 'absolute',
+  },
+  panel: {
+    padding: 16,
+    backgroundColor: '#2A3441',
+    gap: 8,
+  },
+  instruction: {
+    color: '#ECEDEE',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  fitSummary: {
+    color: '#9BA1A6',
+    fontSize: 14,
+  },
+  pointList: {
+    maxHeight: 160,
+  },
+  pointRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+    gap: 8,
+  },
+  pointLabel: {
+    flex: 1,
+    color: '#ECEDEE',
+    fontSize: 14,
+  },
+  residual: {
+    color: '#9BA1A6',
+    fontSize: 13,
+  },
+  residualHigh: {
+    color: '#FD9644',
+  },
+  removeButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#3A4451',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  removeButtonText: {
+    color: '#ECEDEE',
+    fontSize: 18,
+    lineHeight: 20,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 10,
+  },
+  button: {
+    backgroundColor: '#4A90E2',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+  },
+  secondaryButton: {
+    backgroundColor: '#3A4451',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
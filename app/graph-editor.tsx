@@ -0,0 +1,540 @@
+import GraphOverlay, { CampusSwitcher } from '@/components/GraphOverlay';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { MAINTAINER_TOOLS } from '@/constants/maintainer';
+import { CAMPUS_MAPS, DEFAULT_MAP, getCampusMap } from '@/constants/map';
+import { Node } from '@/types/graph';
+import {
+  createHistory,
+  createId,
+  createNode,
+  edgesOfNode,
+  editorReducer,
+  NODE_FLAGS,
+} from '@/utils/graph-editor';
+import { toGeoJSON, toGraphML } from '@/utils/graph-formats';
+import { serializeGraph } from '@/utils/graph-schema';
+import { formatIssue, hasErrors, validateGraph } from '@/utils/graph-validation';
+import { resolveImageSize } from '@/utils/image-size';
+import { NODE_KINDS } from '@/utils/node-kinds';
+import { containRect, Point } from '@/utils/map-coordinates';
+import { useMemo, useReducer, useState } from 'react';
+import { Alert, Image, ScrollView, Share, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import { Switch } from 'react-native-paper';
+
+type Tool = 'select' | 'add-node' | 'add-edge';
+
+type ExportFormat = 'json' | 'geojson' | 'graphml';
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'json', label: 'JSON' },
+  { format: 'geojson', label: 'GeoJSON' },
+  { format: 'graphml', label: 'GraphML' },
+];
+
+const TOOLS: { tool: Tool; label: string }[] = [
+  { tool: 'select', label: 'Select' },
+  { tool: 'add-node', label: 'Add Node' },
+  { tool: 'add-edge', label: 'Draw Edges' },
+];
+
+// Every marker category is shown while editing
+const ALL_MARKERS = {
+  showElevators: true,
+  showRamps: true,
+  showEntrances: true,
+  showWheelchairAccess: true,
+};
+
+/**
+ * Maintainer editor for a campus graph. Nodes are added by tapping the map,
+ * edges by tapping nodes in turn; edge distances follow the coordinates.
+ * Edits can be undone and the result exported as a graph file.
+ */
+export default function GraphEditorScreen() {
+  const [mapId, setMapId] = useState(DEFAULT_MAP.id);
+  const campusMap = getCampusMap(mapId);
+  const imageSize = useMemo(() => resolveImageSize(campusMap.image), [campusMap]);
+
+  const [history, dispatch] = useReducer(editorReducer, campusMap.graph, createHistory);
+  const data = history.present;
+
+  const [tool, setTool] = useState<Tool>('select');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Last node of the edge chain being drawn
+  const [edgeStartId, setEdgeStartId] = useState<string | null>(null);
+  // Next map tap moves the selected node
+  const [moving, setMoving] = useState(false);
+  const [container, setContainer] = useState({ width: 0, height: 0 });
+  const [showIssues, setShowIssues] = useState(false);
+
+  const issues = useMemo(() => validateGraph(data), [data]);
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+
+  // Undo can remove the selected node
+  const selectedNode = data.nodes.find(node => node.id === selectedId) ?? null;
+  const edgeStart = data.nodes.find(node => node.id === edgeStartId) ?? null;
+  const selectedEdges = useMemo(
+    () => (selectedNode ? edgesOfNode(data, selectedNode.id) : []),
+    [data, selectedNode]
+  );
+
+  const rect = containRect(container.width || 1, container.height || 1, imageSize.width, imageSize.height);
+
+  const clearSelection = () => {
+    setSelectedId(null);
+    setEdgeStartId(null);
+    setMoving(false);
+  };
+
+  const switchMap = (id: string) => {
+    setMapId(id);
+    dispatch({ type: 'load', data: getCampusMap(id).graph });
+    clearSelection();
+  };
+
+  const handleMapChange = (id: string) => {
+    if (id === mapId) return;
+    if (history.past.length === 0) {
+      switchMap(id);
+      return;
+    }
+    Alert.alert('Discard edits?', 'Switching maps discards unexported changes to this graph.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => switchMap(id) },
+    ]);
+  };
+
+  const handleToolChange = (next: Tool) => {
+    setTool(next);
+    setEdgeStartId(null);
+    setMoving(false);
+  };
+
+  const handlePressMap = (point: Point) => {
+    if (tool === 'add-node') {
+      const node = createNode(point, `Node ${data.nodes.length + 1}`);
+      dispatch({ type: 'add-node', node });
+      setSelectedId(node.id);
+    } else if (moving && selectedNode) {
+      dispatch({ type: 'move-node', id: selectedNode.id, x: point.x, y: point.y });
+      setMoving(false);
+    } else {
+      clearSelection();
+    }
+  };
+
+  const handlePressNode = (node: Node) => {
+    if (tool === 'add-edge') {
+      if (edgeStartId && edgeStartId !== node.id) {
+        dispatch({ type: 'add-edge', id: createId(), sourceId: edgeStartId, targetId: node.id });
+      }
+      // Keep drawing from the node just reached
+      setEdgeStartId(node.id);
+      setSelectedId(node.id);
+      return;
+    }
+    setSelectedId(node.id === selectedId ? null : node.id);
+    setMoving(false);
+  };
+
+  const handleDeleteNode = (node: Node) => {
+    dispatch({ type: 'delete-node', id: node.id });
+    clearSelection();
+  };
+
+  // GeoJSON and GraphML use lon/lat when the map is georeferenced
+  const share = async (format: ExportFormat) => {
+    const options = { georeference: campusMap.georeference };
+    const message =
+      format === 'geojson'
+        ? JSON.stringify(toGeoJSON(data, options), null, 2)
+        : format === 'graphml'
+          ? toGraphML(data, options)
+          : serializeGraph(data);
+    await Share.share({ message });
+  };
+
+  const chooseFormat = () => {
+    Alert.alert(
+      'Export Graph',
+      'JSON is the app format; GeoJSON opens in QGIS and GraphML in yEd.',
+      EXPORT_FORMATS.map(({ format, label }) => ({ text: label, onPress: () => share(format) })),
+      { cancelable: true }
+    );
+  };
+
+  const handleExport = () => {
+    if (!hasErrors(issues)) {
+      chooseFormat();
+      return;
+    }
+    Alert.alert('Graph has errors', `${errorCount} problems will make this graph fail to load or route.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Export Anyway', style: 'destructive', onPress: chooseFormat },
+    ]);
+  };
+
+  if (!MAINTAINER_TOOLS) {
+    return (
+      <ThemedView style={styles.locked}>
+        <ThemedText style={styles.lockedText}>
+          Maintainer tools are only in development builds, or builds made with EXPO_PUBLIC_MAINTAINER_TOOLS=true.
+        </ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const hint =
+    tool === 'add-node'
+      ? 'Tap the map to add a node.'
+      : tool === 'add-edge'
+        ? edgeStart
+          ? `Tap the next node to connect from "${edgeStart.name}".`
+          : 'Tap a node to start drawing edges.'
+        : moving && selectedNode
+          ? `Tap the map where "${selectedNode.name}" should go.`
+          : 'Tap a node to edit it.';
+
+  return (
+    <ThemedView style={styles.container}>
+      <View
+        style={styles.mapArea}
+        onLayout={event => {
+          const { width, height } = event.nativeEvent.layout;
+          setContainer({ width, height });
+        }}
+      >
+        <Image source={campusMap.image} style={StyleSheet.absoluteFill} resizeMode="contain" />
+        {container.width > 0 && (
+          <View style={[styles.overlayWrapper, { left: rect.x, top: rect.y }]}>
+            <GraphOverlay
+              data={data}
+              width={rect.width}
+              height={rect.height}
+              transform={campusMap.transform}
+              highlightedNodes={[selectedId, edgeStartId].filter((id): id is string => id !== null)}
+              markerVisibility={ALL_MARKERS}
+              onPressMap={handlePressMap}
+              onPressNode={handlePressNode}
+            />
+          </View>
+        )}
+      </View>
+
+      <View style={styles.panel}>
+        {CAMPUS_MAPS.length > 1 && (
+          <CampusSwitcher campuses={CAMPUS_MAPS} campusId={campusMap.id} onChange={handleMapChange} />
+        )}
+
+        <View style={styles.toolbar}>
+          {TOOLS.map(option => (
+            <TouchableOpacity
+              key={option.tool}
+              style={[styles.toolButton, tool === option.tool && styles.toolButtonActive]}
+              onPress={() => handleToolChange(option.tool)}
+            >
+              <ThemedText style={styles.toolButtonText}>{option.label}</ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.toolbar}>
+          <TouchableOpacity
+            style={[styles.toolButton, history.past.length === 0 && styles.buttonDisabled]}
+            onPress={() => dispatch({ type: 'undo' })}
+            disabled={history.past.length === 0}
+          >
+            <ThemedText style={styles.toolButtonText}>Undo</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.toolButton, history.future.length === 0 && styles.buttonDisabled]}
+            onPress={() => dispatch({ type: 'redo' })}
+            disabled={history.future.length === 0}
+          >
+            <ThemedText style={styles.toolButtonText}>Redo</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.toolButton, styles.exportButton]} onPress={handleExport}>
+            <ThemedText style={styles.toolButtonText}>Export</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.toolButton, showIssues && styles.toolButtonActive, errorCount > 0 && styles.deleteButton]}
+            onPress={() => setShowIssues(!showIssues)}
+          >
+            <ThemedText style={styles.toolButtonText}>Problems ({issues.length})</ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        <ThemedText style={styles.hint}>{hint}</ThemedText>
+        <ThemedText style={styles.stats}>
+          {data.nodes.length} nodes · {data.edges.length} edges
+        </ThemedText>
+
+        {showIssues && (
+          <ScrollView style={styles.inspector}>
+            {issues.length === 0 && <ThemedText style={styles.stats}>No problems found.</ThemedText>}
+            {issues.map((issue, index) => (
+              <TouchableOpacity
+                key={`${issue.code}-${index}`}
+                style={styles.issueRow}
+                disabled={issue.nodeIds.length === 0}
+                onPress={() => {
+                  setSelectedId(issue.nodeIds[0]);
+                  setShowIssues(false);
+                }}
+              >
+                <ThemedText style={[styles.issueText, issue.severity === 'error' && styles.issueError]}>
+                  {formatIssue(issue)}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+
+        {!showIssues && selectedNode && (
+          <ScrollView style={styles.inspector}>
+            <TextInput
+              // Remount after undo/redo so the field shows the current name
+              key={`${selectedNode.id}-${selectedNode.name}`}
+              style={styles.nameInput}
+              defaultValue={selectedNode.name}
+              placeholder="Node name"
+              placeholderTextColor="#9BA1A6"
+              onEndEditing={event => {
+                const name = event.nativeEvent.text.trim();
+                if (name && name !== selectedNode.name) {
+                  dispatch({ type: 'rename-node', id: selectedNode.id, name });
+                }
+              }}
+            />
+            <ThemedText style={styles.coordinates}>
+              x {selectedNode.x}, y {selectedNode.y}
+            </ThemedText>
+
+            <View style={styles.kindPicker}>
+              {NODE_KINDS.map(({ kind, label }) => (
+                <TouchableOpacity
+                  key={kind}
+                  style={[styles.kindOption, selectedNode.kind === kind && styles.toolButtonActive]}
+                  onPress={() => dispatch({ type: 'set-node-kind', id: selectedNode.id, kind })}
+                >
+                  <ThemedText style={styles.kindOptionText}>{label}</ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {NODE_FLAGS.map(({ flag, label }) => (
+              <View key={flag} style={styles.flagRow}>
+                <ThemedText style={styles.flagLabel}>{label}</ThemedText>
+                <Switch
+                  value={selectedNode[flag] === true}
+                  onValueChange={() => dispatch({ type: 'toggle-node-flag', id: selectedNode.id, flag })}
+                  color="#4A90E2"
+                />
+              </View>
+            ))}
+
+            <ThemedText style={styles.edgesTitle}>Edges</ThemedText>
+            {selectedEdges.length === 0 && <ThemedText style={styles.stats}>No edges yet.</ThemedText>}
+            {selectedEdges.map(({ edge, neighbor }) => (
+              <View key={edge.id} style={styles.edgeRow}>
+                <ThemedText style={styles.edgeLabel} numberOfLines={1}>
+                  {neighbor.name} · {edge.distance}
+                </ThemedText>
+                <TouchableOpacity
+                  style={[styles.edgeToggle, !edge.no_stairs && styles.edgeToggleStairs]}
+                  onPress={() => dispatch({ type: 'toggle-edge-stairs', id: edge.id })}
+                >
+                  <ThemedText style={styles.edgeToggleText}>{edge.no_stairs ? 'Step-free' : 'Stairs'}</ThemedText>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.removeButton}
+                  onPress={() => dispatch({ type: 'delete-edge', id: edge.id })}
+                >
+                  <ThemedText style={styles.removeButtonText}>×</ThemedText>
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            <View style={styles.toolbar}>
+              <TouchableOpacity
+                style={[styles.toolButton, moving && styles.toolButtonActive]}
+                onPress={() => setMoving(!moving)}
+              >
+                <ThemedText style={styles.toolButtonText}>Move</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.toolButton, styles.deleteButton]}
+                onPress={() => handleDeleteNode(selectedNode)}
+              >
+                <ThemedText style={styles.toolButtonText}>Delete Node</ThemedText>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        )}
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1D2535',
+  },
+  locked: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  lockedText: {
+    color: '#9BA1A6',
+    fontSize: 15,
+    textAlign: 'center',
+  },
+  mapArea: {
+    flex: 1,
+  },
+  overlayWrapper: {
+    position: 'absolute',
+  },
+  panel: {
+    padding: 16,
+    backgroundColor: '#2A3441',
+    gap: 8,
+    maxHeight: '55%',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  toolButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#3A4451',
+  },
+  toolButtonActive: {
+    backgroundColor: '#4A90E2',
+  },
+  toolButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  exportButton: {
+    backgroundColor: '#4A90E2',
+  },
+  deleteButton: {
+    backgroundColor: '#FF4B4B',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  hint: {
+    color: '#ECEDEE',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  stats: {
+    color: '#9BA1A6',
+    fontSize: 13,
+  },
+  inspector: {
+    marginTop: 4,
+  },
+  issueRow: {
+    paddingVertical: 4,
+  },
+  issueText: {
+    color: '#FD9644',
+    fontSize: 13,
+  },
+  issueError: {
+    color: '#FF4B4B',
+  },
+  nameInput: {
+    backgroundColor: '#1D2535',
+    color: '#ECEDEE',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  coordinates: {
+    color: '#9BA1A6',
+    fontSize: 13,
+    marginTop: 4,
+  },
+  kindPicker: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginVertical: 8,
+  },
+  kindOption: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    backgroundColor: '#3A4451',
+  },
+  kindOptionText: {
+    color: '#ECEDEE',
+    fontSize: 13,
+  },
+  flagRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 2,
+  },
+  flagLabel: {
+    color: '#ECEDEE',
+    fontSize: 15,
+  },
+  edgesTitle: {
+    color: '#ECEDEE',
+    fontSize: 15,
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  edgeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 4,
+  },
+  edgeLabel: {
+    flex: 1,
+    color: '#ECEDEE',
+    fontSize: 14,
+  },
+  edgeToggle: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    backgroundColor: '#3A4451',
+  },
+  edgeToggleStairs: {
+    backgroundColor: '#FD9644',
+  },
+  edgeToggleText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+  },
+  removeButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#3A4451',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  removeButtonText: {
+    color: '#ECEDEE',
+    fontSize: 18,
+    lineHeight: 20,
+  },
+});
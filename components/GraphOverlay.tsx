@@ -1,7 +1,10 @@
-import { GraphData, Node } from '@/types/graph';
-import React, { useState } from 'react';
+import { GraphData, Node, NodeKind } from '@/types/graph';
+import { AffineTransform, applyAffine, invertAffine } from '@/utils/affine';
+import { filterGraphByFloor } from '@/utils/floors';
+import { isElevatorNode, nodeKindLabel } from '@/utils/node-kinds';
+import React, { useMemo, useState } from 'react';
 import { Image, Pressable, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
-import Svg, { G, Line } from 'react-native-svg';
+import Svg, { Circle, G, Line } from 'react-native-svg';
 
 interface MarkerVisibility {
   showElevators: boolean;
@@ -39,50 +42,158 @@ export const MAP_ICON_LEGEND: { type: MapIconType; label: string }[] = [
   { type: 'handicap_sign', label: 'Path point' },
 ];
 
+// Selected route first, then alternatives in the order they are offered
+export const ROUTE_COLORS = ['#FF4B4B', '#4A90E2', '#2ECC71'] as const;
+
+// Cycled per leg of a multi-stop route so consecutive legs are distinguishable
+const LEG_COLORS = ['#FF4B4B', '#FD9644', '#9B59B6', '#1ABC9C'];
+
+export interface AlternativePath {
+  path: string[];
+  color: string;
+}
+
 interface GraphOverlayProps {
   data: GraphData;
   width: number;
   height: number;
-  originalWidth?: number;
-  originalHeight?: number;
-  offsetX?: number;
-  offsetY?: number;
+  /** Graph coordinates to fractions (0-1) of `width` and `height`. */
+  transform?: AffineTransform;
   highlightedPath?: string[];
+  highlightColor?: string;
+  alternativePaths?: AlternativePath[];
+  /** Legs of a multi-stop route, drawn in alternating colors with leg numbers. */
+  legPaths?: string[][];
   highlightedNodes?: string[];
+  /** Show only this floor plus elevators and lifts; all floors when null. */
+  floor?: number | null;
   markerVisibility?: MarkerVisibility;
   iconScale?: number;
   showOnlyRoute?: boolean;
   currentStepNodeId?: string | null;
+  /** Step number (from 1) of each node where a route step's action happens, for marker labels. */
+  stepNumbers?: ReadonlyMap<string, number>;
+  stepCount?: number;
   onSetStart?: (node: Node) => void;
   onSetEnd?: (node: Node) => void;
+  /** Long press on empty map space, in graph coordinates. */
+  onLongPressMap?: (point: { x: number; y: number }) => void;
+  /** Tap on empty map space, in graph coordinates. */
+  onPressMap?: (point: { x: number; y: number }) => void;
+  /** Replaces the node popup when set, e.g. for editing. */
+  onPressNode?: (node: Node) => void;
+  /** The user's position and its accuracy radius, in graph coordinates and units. */
+  userPosition?: { point: { x: number; y: number }; accuracy: number } | null;
 }
 
-const DEFAULT_COORD_WIDTH = 1000; 
-const DEFAULT_COORD_HEIGHT = 1000;
+// Treats graph coordinates as a 1000x1000 space when no calibration is given
+const DEFAULT_TRANSFORM: AffineTransform = { a: 1 / 1000, b: 0, c: 0, d: 1 / 1000, tx: 0, ty: 0 };
 
 const BASE_ICON_SIZE = 16;
 const DOT_SIZE = 8; // Smaller size for default dot (unscaled)
+const USER_DOT_RADIUS = 7;
 
-function getNodeIconType(node: Node): MapIconType {
-  const name = (node.name ?? '').toLowerCase();
-  
-  if (node.elevator) {
-    return 'elevator';
-  } else if (name.includes('stair')) {
-    // Stairs nodes are not wheelchair-accessible, but appear in the dataset by name.
-    // Keep these visually distinct.
-    return 'ladder';
-  } else if (name.includes('building connection')) {
-    return 'arrow';
-  } else if (name.includes('campus entrance')) {
-    return 'triangle';
-  } else if (name.includes('ramp')) {
-    return 'ramp';
-  } else if (name.includes('entrance')) {
-    return 'door';
+const edgeKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+function pathEdgeKeys(path: string[]): Set<string> {
+  const keys = new Set<string>();
+  for (let i = 1; i < path.length; i++) {
+    keys.add(edgeKey(path[i - 1], path[i]));
   }
-  
-  return 'handicap_sign';
+  return keys;
+}
+
+// Stairs nodes are not wheelchair-accessible, but keep them visually distinct
+const ICON_BY_KIND: Record<NodeKind, MapIconType> = {
+  elevator: 'elevator',
+  lift: 'elevator',
+  stairs: 'ladder',
+  connector: 'arrow',
+  campus_entrance: 'triangle',
+  ramp: 'ramp',
+  entrance: 'door',
+  path: 'handicap_sign',
+  poi: 'handicap_sign',
+};
+
+const getNodeIconType = (node: Node): MapIconType => ICON_BY_KIND[node.kind] ?? 'handicap_sign';
+
+/** Screen reader label for a marker, e.g. "Pupin Hall Elevator, on route, step 3 of 9". */
+function markerLabel(
+  node: Node,
+  { onRoute, step, stepCount, isCurrentStep }: { onRoute: boolean; step?: number; stepCount: number; isCurrentStep: boolean }
+): string {
+  const kind = nodeKindLabel(node.kind);
+  // Names usually say what the place is already ("NWC - Elevator"); paths and places need no kind
+  const showKind = node.kind !== 'path' && node.kind !== 'poi' && !node.name.toLowerCase().includes(kind.toLowerCase());
+  return [
+    showKind ? `${node.name} ${kind}` : node.name,
+    ...(node.floor !== undefined ? [`floor ${node.floor}`] : []),
+    ...(onRoute ? ['on route'] : []),
+    ...(step !== undefined ? [`step ${step} of ${stepCount}`] : []),
+    ...(isCurrentStep ? ['current step'] : []),
+  ].join(', ');
+}
+
+interface FloorPickerProps {
+  /** Floors in ascending order. */
+  floors: number[];
+  floor: number | null;
+  onChange: (floor: number | null) => void;
+}
+
+/** Vertical floor selector, top floor first, with "All" to show every level. */
+export function FloorPicker({ floors, floor, onChange }: FloorPickerProps) {
+  const options: (number | null)[] = [null, ...[...floors].reverse()];
+
+  return (
+    <View style={styles.floorPicker}>
+      {options.map(option => {
+        const isSelected = option === floor;
+        return (
+          <TouchableOpacity
+            key={option ?? 'all'}
+            style={[styles.floorOption, isSelected && styles.floorOptionSelected]}
+            onPress={() => onChange(option)}
+            activeOpacity={0.75}
+          >
+            <Text style={[styles.floorOptionText, isSelected && styles.floorOptionTextSelected]}>
+              {option === null ? 'All' : option}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+interface CampusSwitcherProps {
+  campuses: { id: string; name: string }[];
+  campusId: string;
+  onChange: (campusId: string) => void;
+}
+
+/** Horizontal pill row for choosing which campus map is shown. */
+export function CampusSwitcher({ campuses, campusId, onChange }: CampusSwitcherProps) {
+  return (
+    <View style={styles.campusSwitcher}>
+      {campuses.map(campus => {
+        const isSelected = campus.id === campusId;
+        return (
+          <TouchableOpacity
+            key={campus.id}
+            style={[styles.campusOption, isSelected && styles.floorOptionSelected]}
+            onPress={() => onChange(campus.id)}
+            activeOpacity={0.75}
+          >
+            <Text style={[styles.floorOptionText, isSelected && styles.floorOptionTextSelected]}>
+              {campus.name}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
 }
 
 interface NodePopupProps {
@@ -149,11 +260,16 @@ function NodePopup({ node, position, onClose, containerWidth, onSetStart, onSetE
             </View>
           </View>
           
-          <View style={styles.popupRow}>
-            <Text style={styles.popupLabel}>Elevator:</Text>
-            <View style={[styles.badge, node.elevator ? styles.badgeYes : styles.badgeNo]}>
-              <Text style={styles.badgeText}>{getBooleanDisplay(node.elevator)}</Text>
+          {node.floor !== undefined && (
+            <View style={styles.popupRow}>
+              <Text style={styles.popupLabel}>Floor:</Text>
+              <Text style={styles.popupValue}>{node.floor}</Text>
             </View>
+          )}
+
+          <View style={styles.popupRow}>
+            <Text style={styles.popupLabel}>Type:</Text>
+            <Text style={styles.popupValue}>{nodeKindLabel(node.kind)}</Text>
           </View>
         </View>
 
@@ -161,12 +277,16 @@ function NodePopup({ node, position, onClose, containerWidth, onSetStart, onSetE
           <TouchableOpacity 
             style={[styles.actionButton, styles.startButton]} 
             onPress={() => { onSetStart?.(node); onClose(); }}
+            accessibilityRole="button"
+            accessibilityLabel={`Set ${node.name} as start`}
           >
             <Text style={styles.actionButtonText}>Set Start</Text>
           </TouchableOpacity>
           <TouchableOpacity 
             style={[styles.actionButton, styles.endButton]} 
             onPress={() => { onSetEnd?.(node); onClose(); }}
+            accessibilityRole="button"
+            accessibilityLabel={`Set ${node.name} as destination`}
           >
             <Text style={styles.actionButtonText}>Set Dest</Text>
           </TouchableOpacity>
@@ -179,15 +299,16 @@ function NodePopup({ node, position, onClose, containerWidth, onSetStart, onSetE
 }
 
 export default function GraphOverlay({ 
-  data, 
+  data: fullData, 
   width, 
   height, 
-  originalWidth = DEFAULT_COORD_WIDTH,
-  originalHeight = DEFAULT_COORD_HEIGHT,
-  offsetX = 0,
-  offsetY = 0,
+  transform = DEFAULT_TRANSFORM,
   highlightedPath = [],
+  highlightColor = ROUTE_COLORS[0],
+  alternativePaths = [],
+  legPaths = [],
   highlightedNodes = [],
+  floor = null,
   iconScale = 1,
   showOnlyRoute = false,
   markerVisibility = {
@@ -197,21 +318,70 @@ export default function GraphOverlay({
     showWheelchairAccess: true,
   },
   currentStepNodeId = null,
+  stepNumbers,
+  stepCount = 0,
   onSetStart,
-  onSetEnd
+  onSetEnd,
+  onLongPressMap,
+  onPressMap,
+  onPressNode,
+  userPosition = null,
 }: GraphOverlayProps) {
   
   const [selectedNode, setSelectedNode] = useState<Node | null>(null);
+  const data = useMemo(
+    () => (floor === null ? fullData : filterGraphByFloor(fullData, floor)),
+    [floor, fullData]
+  );
   const [popupPosition, setPopupPosition] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
   const iconSize = BASE_ICON_SIZE * Math.max(0.5, iconScale);
   const touchSize = Math.max(iconSize + 12, 28); // keep accessible tap target
   
-  const scaleX = width / originalWidth;
-  const scaleY = height / originalHeight;
+  const toScreen = (point: { x: number; y: number }) => {
+    const fraction = applyAffine(transform, point);
+    return { x: fraction.x * width, y: fraction.y * height };
+  };
   
+  // Screen pixels per graph unit, averaged over both axes
+  const unitScale = Math.sqrt(Math.abs(transform.a * transform.d - transform.b * transform.c) * width * height);
+  const userDot = userPosition && {
+    ...toScreen(userPosition.point),
+    accuracyRadius: userPosition.accuracy * unitScale,
+  };
+
   const nodeMap = new Map<string, Node>();
   data.nodes.forEach(node => nodeMap.set(node.id, node));
 
+  const highlightedEdgeKeys = pathEdgeKeys(highlightedPath);
+  const alternativeEdgeKeys = alternativePaths.map(({ path, color }) => ({
+    keys: pathEdgeKeys(path),
+    color,
+  }));
+  const legEdgeKeys =
+    legPaths.length > 1
+      ? legPaths.map((path, index) => ({
+          keys: pathEdgeKeys(path),
+          color: LEG_COLORS[index % LEG_COLORS.length],
+        }))
+      : [];
+
+  // Leg number badges sit halfway along each leg
+  const legLabels = legEdgeKeys.length
+    ? legPaths.flatMap((path, index) => {
+        if (path.length < 2) return [];
+        const middle = Math.floor((path.length - 1) / 2);
+        const a = nodeMap.get(path[middle]);
+        const b = nodeMap.get(path[middle + 1]);
+        if (!a || !b) return [];
+        return [{
+          key: `leg-${index}`,
+          label: String(index + 1),
+          color: LEG_COLORS[index % LEG_COLORS.length],
+          ...toScreen({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }),
+        }];
+      })
+    : [];
+
   const shouldShowNode = (node: Node): boolean => {
     // If "Show Only Route" mode is active, only show nodes that are on the highlighted path
     if (showOnlyRoute && highlightedPath.length > 0) {
@@ -244,8 +414,14 @@ export default function GraphOverlay({
 
   const visibleNodes = data.nodes.filter(shouldShowNode);
   
+  // Inverts the transform used to draw nodes
+  const toGraph = (locationX: number, locationY: number) =>
+    applyAffine(invertAffine(transform), { x: locationX / width, y: locationY / height });
+
   const handleNodePress = (node: Node, x: number, y: number) => {
-    if (selectedNode?.id === node.id) {
+    if (onPressNode) {
+      onPressNode(node);
+    } else if (selectedNode?.id === node.id) {
       setSelectedNode(null);
     } else {
       setSelectedNode(node);
@@ -255,6 +431,20 @@ export default function GraphOverlay({
 
   return (
     <View style={[styles.container, { width, height }]} pointerEvents="box-none">
+      {(onLongPressMap || onPressMap) && (
+        // Below the markers, so node taps still reach them
+        <Pressable
+          style={StyleSheet.absoluteFill}
+          onPress={
+            onPressMap &&
+            (event => onPressMap(toGraph(event.nativeEvent.locationX, event.nativeEvent.locationY)))
+          }
+          onLongPress={
+            onLongPressMap &&
+            (event => onLongPressMap(toGraph(event.nativeEvent.locationX, event.nativeEvent.locationY)))
+          }
+        />
+      )}
       <Svg height={height} width={width} pointerEvents="none">
         <G>
           {data.edges.map(edge => {
@@ -263,32 +453,35 @@ export default function GraphOverlay({
 
             if (!source || !target) return null;
 
-            let isHighlighted = false;
-            if (highlightedPath.length > 1) {
-              const sourceIndex = highlightedPath.indexOf(edge.sourceId);
-              const targetIndex = highlightedPath.indexOf(edge.targetId);
-              
-              if (sourceIndex !== -1 && targetIndex !== -1) {
-                if (Math.abs(sourceIndex - targetIndex) === 1) {
-                  isHighlighted = true;
-                }
-              }
-            }
+            const key = edgeKey(edge.sourceId, edge.targetId);
+            const isHighlighted = highlightedEdgeKeys.has(key);
+            const alternative = isHighlighted
+              ? undefined
+              : alternativeEdgeKeys.find(({ keys }) => keys.has(key));
             
             // If "Show Only Route" mode is active, only show route edges
             if (showOnlyRoute && !isHighlighted) {
               return null;
             }
-            
+
+            const start = toScreen(source);
+            const end = toScreen(target);
             return (
               <Line
                 key={edge.id}
-                x1={(source.x + offsetX) * scaleX}
-                y1={(source.y + offsetY) * scaleY}
-                x2={(target.x + offsetX) * scaleX}
-                y2={(target.y + offsetY) * scaleY}
-                stroke={isHighlighted ? "#FF4B4B" : "rgba(0,0,255, 0.15)"}
-                strokeWidth={isHighlighted ? 4 : 1}
+                x1={start.x}
+                y1={start.y}
+                x2={end.x}
+                y2={end.y}
+                stroke={
+                  isHighlighted
+                    ? legEdgeKeys.find(({ keys }) => keys.has(key))?.color ?? highlightColor
+                    : alternative
+                      ? alternative.color
+                      : "rgba(0,0,255, 0.15)"
+                }
+                strokeWidth={isHighlighted ? 4 : alternative ? 3 : 1}
+                strokeDasharray={alternative ? '6,4' : undefined}
               />
             );
           })}
@@ -299,13 +492,12 @@ export default function GraphOverlay({
         const isHighlighted = highlightedNodes.includes(node.id);
         const isPathNode = highlightedPath.includes(node.id);
         const isSelected = selectedNode?.id === node.id;
-        const x = (node.x + offsetX) * scaleX;
-        const y = (node.y + offsetY) * scaleY;
+        const { x, y } = toScreen(node);
         const iconType = getNodeIconType(node);
         
         // Logic: Show full icon if it's an elevator, selected, or highlighted. 
         // Otherwise, show a small dot.
-        const showFullIcon = node.elevator || isSelected || isHighlighted || isPathNode;
+        const showFullIcon = isElevatorNode(node) || isSelected || isHighlighted || isPathNode;
         const currentSize = showFullIcon ? iconSize : DOT_SIZE;
         const isCurrentStep = currentStepNodeId === node.id;
         
@@ -324,6 +516,14 @@ export default function GraphOverlay({
             }}
             onPress={() => handleNodePress(node, x, y)}
             activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityLabel={markerLabel(node, {
+              onRoute: isPathNode,
+              step: stepNumbers?.get(node.id),
+              stepCount,
+              isCurrentStep,
+            })}
+            accessibilityHint={onPressNode ? 'Edits this node' : 'Shows details and route options'}
           >
             <View
               style={{
@@ -372,6 +572,30 @@ export default function GraphOverlay({
         );
       })}
 
+      {legLabels.map(({ key, label, color, x, y }) => (
+        <View
+          key={key}
+          pointerEvents="none"
+          style={[styles.legBadge, { left: x - 10, top: y - 10, backgroundColor: color }]}
+        >
+          <Text style={styles.legBadgeText}>{label}</Text>
+        </View>
+      ))}
+
+      {userDot && (
+        <Svg height={height} width={width} style={StyleSheet.absoluteFill} pointerEvents="none">
+          <Circle
+            cx={userDot.x}
+            cy={userDot.y}
+            r={Math.max(userDot.accuracyRadius, USER_DOT_RADIUS)}
+            fill="rgba(74, 144, 226, 0.2)"
+            stroke="rgba(74, 144, 226, 0.6)"
+            strokeWidth={1}
+          />
+          <Circle cx={userDot.x} cy={userDot.y} r={USER_DOT_RADIUS} fill="#4A90E2" stroke="#fff" strokeWidth={2} />
+        </Svg>
+      )}
+
       {selectedNode && (
         <NodePopup 
           node={selectedNode} 
@@ -393,6 +617,22 @@ const styles = StyleSheet.create({
     left: 0,
     backgroundColor: 'transparent',
   },
+  legBadge: {
+    position: 'absolute',
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: '#fff',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 50,
+  },
+  legBadgeText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '700',
+  },
   popupOverlay: {
     position: 'absolute',
     top: 0,
@@ -438,6 +678,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#9BA1A6',
   },
+  popupValue: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ECEDEE',
+  },
   badge: {
     paddingHorizontal: 8,
     paddingVertical: 2,
@@ -494,4 +739,43 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  floorPicker: {
+    backgroundColor: 'rgba(0, 0, 0, 0.75)',
+    borderRadius: 22,
+    padding: 6,
+    gap: 4,
+  },
+  floorOption: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  campusSwitcher: {
+    flexDirection: 'row',
+    alignSelf: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.75)',
+    borderRadius: 22,
+    padding: 6,
+    gap: 4,
+  },
+  campusOption: {
+    height: 32,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  floorOptionSelected: {
+    backgroundColor: '#4A90E2',
+  },
+  floorOptionText: {
+    color: '#9BA1A6',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  floorOptionTextSelected: {
+    color: '#fff',
+  },
 });
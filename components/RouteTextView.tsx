@@ -0,0 +1,170 @@
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Instruction } from '@/utils/instructions';
+import { MobilityProfile } from '@/utils/mobility';
+import { DistanceUnits, estimateInstruction, formatTravel } from '@/utils/travel';
+import { FlatList, Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+interface RouteTextViewProps {
+  visible: boolean;
+  /** Name of the place the route leads to. */
+  destination: string;
+  instructions: Instruction[];
+  currentStepIndex: number;
+  /** One-line overview, e.g. distance, time and elevator count. */
+  summary: string;
+  /** Closures and lifted constraints that apply to the route. */
+  warnings: string[];
+  units: DistanceUnits;
+  profile: MobilityProfile;
+  onSelectStep: (index: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * The route as a plain list of steps, for screen readers: each step is one
+ * element read as "Step 3 of 9, current step. Turn left toward ...". Choosing
+ * a step makes it the current one and returns to the map.
+ */
+export default function RouteTextView({
+  visible,
+  destination,
+  instructions,
+  currentStepIndex,
+  summary,
+  warnings,
+  units,
+  profile,
+  onSelectStep,
+  onClose,
+}: RouteTextViewProps) {
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title} accessibilityRole="header">
+            Route to {destination}
+          </Text>
+          <TouchableOpacity
+            style={styles.closeButton}
+            onPress={onClose}
+            accessibilityRole="button"
+            accessibilityLabel="Close route text"
+          >
+            <IconSymbol name="xmark.circle.fill" size={26} color="#9BA1A6" />
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.summary}>{summary}</Text>
+        {warnings.map(warning => (
+          <Text key={warning} style={styles.warning}>
+            {warning}
+          </Text>
+        ))}
+
+        <FlatList
+          data={instructions}
+          keyExtractor={(_, index) => String(index)}
+          contentContainerStyle={styles.list}
+          renderItem={({ item: instruction, index }) => {
+            const isCurrent = index === currentStepIndex;
+            const travel =
+              instruction.distance > 0 ? formatTravel(estimateInstruction(instruction, profile), units, profile) : null;
+            return (
+              <TouchableOpacity
+                style={[styles.step, isCurrent && styles.stepCurrent]}
+                activeOpacity={0.75}
+                onPress={() => {
+                  onSelectStep(index);
+                  onClose();
+                }}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isCurrent }}
+                accessibilityLabel={[
+                  `Step ${index + 1} of ${instructions.length}${isCurrent ? ', current step' : ''}.`,
+                  `${instruction.text}.`,
+                  ...(travel ? [travel] : []),
+                ].join(' ')}
+                accessibilityHint="Shows this step on the map"
+              >
+                <Text style={styles.stepIndex}>{index + 1}</Text>
+                <View style={styles.stepBody}>
+                  <Text style={styles.stepText}>{instruction.text}</Text>
+                  {travel && <Text style={styles.stepDetail}>{travel}</Text>}
+                </View>
+              </TouchableOpacity>
+            );
+          }}
+        />
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1D2535',
+    paddingTop: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+  },
+  title: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#ECEDEE',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  summary: {
+    paddingHorizontal: 16,
+    marginTop: 8,
+    fontSize: 14,
+    color: '#9BA1A6',
+  },
+  warning: {
+    paddingHorizontal: 16,
+    marginTop: 6,
+    fontSize: 14,
+    color: '#FD9644',
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  step: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+    borderRadius: 12,
+    backgroundColor: '#2A3441',
+  },
+  stepCurrent: {
+    borderWidth: 2,
+    borderColor: '#4A90E2',
+  },
+  stepIndex: {
+    width: 28,
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#9BA1A6',
+  },
+  stepBody: {
+    flex: 1,
+  },
+  stepText: {
+    fontSize: 16,
+    lineHeight: 22,
+    color: '#ECEDEE',
+  },
+  stepDetail: {
+    marginTop: 2,
+    fontSize: 14,
+    color: '#9BA1A6',
+  },
+});
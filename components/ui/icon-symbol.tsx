@@ -34,6 +34,12 @@ const MAPPING = {
   'figure.roll': 'accessible',
   'arrow.up.arrow.down': 'swap-vert',
   'figure.walk': 'directions-walk',
+  'plus.circle': 'add-circle-outline',
+  'shuffle': 'shuffle',
+  'scope': 'my-location',
+  'speaker.wave.2.fill': 'volume-up',
+  'speaker.slash.fill': 'volume-off',
+  'list.bullet': 'format-list-bulleted',
 
   // Reports
   'exclamationmark.circle': 'error-outline',
@@ -0,0 +1,6 @@
+/**
+ * Whether the maintainer tools (graph editor, map calibration, simulated
+ * location) are available: always in development builds, and in release
+ * builds only when built with EXPO_PUBLIC_MAINTAINER_TOOLS=true.
+ */
+export const MAINTAINER_TOOLS = __DEV__ || process.env.EXPO_PUBLIC_MAINTAINER_TOOLS === 'true';
@@ -0,0 +1,41 @@
+import upperCampusGraph from '@/assets/graphs/upper_campus_graph_data.json';
+import upperCampusCalibration from '@/assets/images/columbia-ods-map-2.calibration.json';
+import { buildCampusGraph, CampusMap, createCampusMap, MapLink } from '@/utils/campuses';
+import { loadGraph } from '@/utils/graph-schema';
+
+/**
+ * Registry of campus maps. Each map pairs a graph with its image and the
+ * calibration file stored next to the image (see the Map Calibration screen).
+ * Node ids must be unique across maps.
+ */
+export const CAMPUS_MAPS: CampusMap[] = [
+  createCampusMap({
+    id: 'morningside',
+    name: 'Morningside',
+    graph: loadGraph(upperCampusGraph, 'upper_campus_graph_data.json'),
+    image: require('@/assets/images/columbia-ods-map-2.png'),
+    calibration: upperCampusCalibration,
+    // Measured from the 116th-120th Street and Broadway-Amsterdam block lengths
+    // (about 320 m and 260 m on the ground)
+    metersPerUnit: 0.65,
+  }),
+];
+
+/**
+ * Places shared by two maps, such as the 116th Street corners; routes cross
+ * between maps only through these. Checked when `CAMPUS_GRAPH` is built.
+ */
+export const MAP_LINKS: MapLink[] = [];
+
+export const DEFAULT_MAP = CAMPUS_MAPS[0];
+
+export const getCampusMap = (id?: string | null) => CAMPUS_MAPS.find(map => map.id === id) ?? DEFAULT_MAP;
+
+/** All maps merged for routing; distances are in `DEFAULT_MAP` graph units. */
+export const CAMPUS_GRAPH = buildCampusGraph(CAMPUS_MAPS, MAP_LINKS);
+
+/** Id of the map a graph node is drawn on. */
+export const mapIdOfNode = (nodeId: string) => CAMPUS_GRAPH.mapIdByNode.get(nodeId);
+
+// Meters per unit of routing distances
+export const MAP_METERS_PER_UNIT = DEFAULT_MAP.metersPerUnit;
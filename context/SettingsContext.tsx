@@ -1,4 +1,14 @@
-import React, { createContext, ReactNode, useContext, useState } from 'react';
+import { DEFAULT_HAPTIC_PATTERNS, HapticCue, HapticPattern } from '@/utils/haptic-cues';
+import {
+  DEFAULT_CUSTOM_PROFILE,
+  getMobilityProfile,
+  MobilityProfile,
+  MobilityProfileId,
+  SpeedOverrides,
+} from '@/utils/mobility';
+import { DistanceUnits } from '@/utils/travel';
+import { VoiceVerbosity } from '@/utils/voice-guidance';
+import React, { createContext, ReactNode, useContext, useMemo, useState } from 'react';
 
 interface MarkerVisibility {
   showElevators: boolean;
@@ -8,7 +18,17 @@ interface MarkerVisibility {
 }
 
 interface SettingsContextType {
-  // Accessibility Preferences
+  // Accessibility Preferences (one active mobility profile)
+  mobilityProfileId: MobilityProfileId;
+  setMobilityProfileId: (value: MobilityProfileId) => void;
+  customProfile: MobilityProfile;
+  setCustomProfile: (value: MobilityProfile) => void;
+  // Speed set per profile; null clears it, back to the profile's own speed
+  speedOverrides: SpeedOverrides;
+  setSpeedOverride: (id: MobilityProfileId, speed: number | null) => void;
+  // Resolved profile used for routing
+  mobilityProfile: MobilityProfile;
+  // Per-profile toggles; turning one on selects it, turning it off falls back to standard
   standardMobility: boolean;
   setStandardMobility: (value: boolean) => void;
   caneCrutches: boolean;
@@ -28,6 +48,27 @@ interface SettingsContextType {
   entrances: boolean;
   setEntrances: (value: boolean) => void;
 
+  // Display
+  distanceUnits: DistanceUnits;
+  setDistanceUnits: (value: DistanceUnits) => void;
+
+  // Voice guidance (spoken route steps; muted from the navigation header too)
+  voiceGuidance: boolean;
+  setVoiceGuidance: (value: boolean) => void;
+  voiceVerbosity: VoiceVerbosity;
+  setVoiceVerbosity: (value: VoiceVerbosity) => void;
+
+  // Haptic cues during navigation, each with its own pattern
+  hapticCues: boolean;
+  setHapticCues: (value: boolean) => void;
+  hapticPatterns: Record<HapticCue, HapticPattern>;
+  setHapticPattern: (cue: HapticCue, pattern: HapticPattern) => void;
+
+  // Maintainer tools (only when MAINTAINER_TOOLS): replay the current route as
+  // the user's location instead of using the device
+  simulateLocation: boolean;
+  setSimulateLocation: (value: boolean) => void;
+
   // Derived visibility for map markers
   markerVisibility: MarkerVisibility;
 }
@@ -36,9 +77,28 @@ const SettingsContext = createContext<SettingsContextType | undefined>(undefined
 
 export function SettingsProvider({ children }: { children: ReactNode }) {
   // Accessibility Preferences
-  const [standardMobility, setStandardMobility] = useState(false);
-  const [caneCrutches, setCaneCrutches] = useState(true);
-  const [wheelchairUser, setWheelchairUser] = useState(true);
+  const [mobilityProfileId, setMobilityProfileId] = useState<MobilityProfileId>('wheelchair');
+  const [customProfile, setCustomProfile] = useState<MobilityProfile>(DEFAULT_CUSTOM_PROFILE);
+  const [speedOverrides, setSpeedOverrides] = useState<SpeedOverrides>({});
+  const setSpeedOverride = (id: MobilityProfileId, speed: number | null) =>
+    setSpeedOverrides(current => {
+      const next = { ...current };
+      if (speed === null) delete next[id];
+      else next[id] = speed;
+      return next;
+    });
+  const mobilityProfile = useMemo(
+    () => getMobilityProfile(mobilityProfileId, customProfile, speedOverrides),
+    [customProfile, mobilityProfileId, speedOverrides]
+  );
+
+  const profileToggle = (id: MobilityProfileId) => (value: boolean) => {
+    if (value) {
+      setMobilityProfileId(id);
+    } else if (mobilityProfileId === id) {
+      setMobilityProfileId('standard');
+    }
+  };
 
   // Route Options
   const [avoidStairs, setAvoidStairs] = useState(true);
@@ -47,6 +107,22 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
   const [minimizeOutdoorPaths, setMinimizeOutdoorPaths] = useState(true);
   const [entrances, setEntrances] = useState(true);
 
+  // Display
+  const [distanceUnits, setDistanceUnits] = useState<DistanceUnits>('metric');
+
+  // Voice guidance
+  const [voiceGuidance, setVoiceGuidance] = useState(false);
+  const [voiceVerbosity, setVoiceVerbosity] = useState<VoiceVerbosity>('standard');
+
+  // Haptic cues
+  const [hapticCues, setHapticCues] = useState(true);
+  const [hapticPatterns, setHapticPatterns] = useState(DEFAULT_HAPTIC_PATTERNS);
+  const setHapticPattern = (cue: HapticCue, pattern: HapticPattern) =>
+    setHapticPatterns(current => ({ ...current, [cue]: pattern }));
+
+  // Maintainer
+  const [simulateLocation, setSimulateLocation] = useState(false);
+
   // Derive marker visibility from settings
   const markerVisibility: MarkerVisibility = {
     // These control what's rendered on the map (not routing constraints)
@@ -59,12 +135,19 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
   return (
     <SettingsContext.Provider
       value={{
-        standardMobility,
-        setStandardMobility,
-        caneCrutches,
-        setCaneCrutches,
-        wheelchairUser,
-        setWheelchairUser,
+        mobilityProfileId,
+        setMobilityProfileId,
+        customProfile,
+        setCustomProfile,
+        speedOverrides,
+        setSpeedOverride,
+        mobilityProfile,
+        standardMobility: mobilityProfileId === 'standard',
+        setStandardMobility: profileToggle('standard'),
+        caneCrutches: mobilityProfileId === 'caneCrutches',
+        setCaneCrutches: profileToggle('caneCrutches'),
+        wheelchairUser: mobilityProfileId === 'wheelchair',
+        setWheelchairUser: profileToggle('wheelchair'),
         avoidStairs,
         setAvoidStairs,
         preferElevators,
@@ -75,6 +158,18 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
         setMinimizeOutdoorPaths,
         entrances,
         setEntrances,
+        distanceUnits,
+        setDistanceUnits,
+        voiceGuidance,
+        setVoiceGuidance,
+        voiceVerbosity,
+        setVoiceVerbosity,
+        hapticCues,
+        setHapticCues,
+        hapticPatterns,
+        setHapticPattern,
+        simulateLocation,
+        setSimulateLocation,
         markerVisibility,
       }}
     >
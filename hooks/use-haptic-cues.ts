@@ -0,0 +1,22 @@
+import { useSettings } from '@/context/SettingsContext';
+import { HapticCue } from '@/utils/haptic-cues';
+import { playHapticPattern } from '@/utils/haptics';
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Returns a function that plays the pattern chosen in Settings for a cue, or
+ * nothing when haptic cues are off. The function never changes, so effects
+ * that play cues do not rerun when the settings do.
+ */
+export function useHapticCues() {
+  const { hapticCues, hapticPatterns } = useSettings();
+  const settings = useRef({ hapticCues, hapticPatterns });
+
+  useEffect(() => {
+    settings.current = { hapticCues, hapticPatterns };
+  }, [hapticCues, hapticPatterns]);
+
+  return useCallback((cue: HapticCue) => {
+    if (settings.current.hapticCues) playHapticPattern(settings.current.hapticPatterns[cue]);
+  }, []);
+}
@@ -0,0 +1,17 @@
+import { LocationFix, LocationProvider } from '@/utils/location';
+import { useEffect, useState } from 'react';
+
+/** Latest fix from `provider` while it is set; watching stops when it changes or is cleared. */
+export function useLocationFix(provider: LocationProvider | null) {
+  const [fix, setFix] = useState<LocationFix | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    setFix(null);
+    setError(null);
+    if (!provider) return;
+    return provider.watch(setFix, setError);
+  }, [provider]);
+
+  return { fix, error };
+}
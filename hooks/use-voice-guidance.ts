@@ -0,0 +1,32 @@
+import { speak, stopSpeaking } from '@/utils/voice-guidance';
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Speaks `text` whenever `step` (the instruction being announced) or its text
+ * changes while `enabled`, and again when guidance is switched back on. Steps
+ * are announced by identity, so two steps in a row that read the same (e.g.
+ * "Turn left" twice in brief mode) are both spoken. `repeat` says the last
+ * announcement again.
+ */
+export function useVoiceGuidance(text: string | null, enabled: boolean, step: unknown) {
+  const lastSpoken = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      stopSpeaking();
+      return;
+    }
+    if (!text) return;
+    speak(text);
+    lastSpoken.current = text;
+  }, [enabled, step, text]);
+
+  // Stop talking when the screen goes away
+  useEffect(() => stopSpeaking, []);
+
+  const repeat = useCallback(() => {
+    if (enabled && lastSpoken.current) speak(lastSpoken.current);
+  }, [enabled]);
+
+  return { repeat };
+}
@@ -0,0 +1,216 @@
+#!/usr/bin/env node
+
+/**
+ * Checks turn-by-turn directions and route tracking against the campus graph,
+ * for behaviour the graph validator cannot see. Tracking is checked by
+ * replaying simulated location fixes along a route.
+ * Usage (from the project root): npm run check-navigation
+ * Exits with 1 when any check fails.
+ */
+
+require("./ts-require");
+const { DEFAULT_MAP } = require("../constants/map.ts");
+const { buildCampusGraph, isMapLinkEdge } = require("../utils/campuses.ts");
+const { buildInstructions } = require("../utils/instructions.ts");
+const { MOBILITY_PROFILES } = require("../utils/mobility.ts");
+const { fixesAlongPath, locateOnMap, nodesToLonLat } = require("../utils/positioning.ts");
+const { OFF_ROUTE_FIXES, trackRoute } = require("../utils/route-progress.ts");
+const { RouteGraph } = require("../utils/routing.ts");
+const { estimateInstructions } = require("../utils/travel.ts");
+
+const map = DEFAULT_MAP;
+const { graph } = map;
+const routeGraph = new RouteGraph(graph);
+
+const nodeNamed = (name) => {
+  const node = graph.nodes.find((candidate) => candidate.name === name);
+  if (!node) throw new Error(`The ${map.name} map has no node named "${name}"`);
+  return node;
+};
+
+let failed = false;
+const check = (name, passed, detail) => {
+  console.log(`${passed ? "ok  " : "FAIL"} ${name}${passed ? "" : `: ${detail}`}`);
+  if (!passed) failed = true;
+};
+
+// One elevator ride is one step, and its wait is counted once
+{
+  const route = routeGraph.findRoute(
+    nodeNamed("NWC - Study Space").id,
+    nodeNamed("NWC - Campus Entrance").id,
+    { profile: MOBILITY_PROFILES.wheelchair }
+  );
+  const instructions = route ? buildInstructions(route) : [];
+  const rides = instructions.filter((instruction) => instruction.action === "take-elevator");
+  check(
+    "a route with one elevator ride has one elevator step",
+    rides.length === 1,
+    instructions.map((instruction) => instruction.text).join(" / ") || "no route"
+  );
+
+  const profile = MOBILITY_PROFILES.wheelchair;
+  const { seconds } = estimateInstructions(instructions, profile);
+  const walking = estimateInstructions(
+    instructions.map((instruction) => ({ ...instruction, action: "continue" })),
+    profile
+  ).seconds;
+  check(
+    "the elevator wait is counted once",
+    Math.abs(seconds - walking - profile.elevatorWait) < 1e-6,
+    `${seconds - walking} s of waiting, expected ${profile.elevatorWait} s`
+  );
+}
+
+// Routes that avoid stairs also avoid stairs nodes, even where their edges are marked step-free
+{
+  const stairs = nodeNamed("Low Plaza - Top West Stairs");
+  const route = routeGraph.findRoute(
+    nodeNamed("Lower to Upper Campus Elevator").id,
+    nodeNamed("Dodge - North Ramp Entrance - Upper Campus").id,
+    { profile: MOBILITY_PROFILES.wheelchair }
+  );
+  check(
+    "a wheelchair route does not pass a stairs node",
+    Boolean(route) && !route.nodes.some((node) => node.kind === "stairs"),
+    route ? route.nodes.map((node) => node.name).join(" / ") : "no route"
+  );
+  const walking = routeGraph.findRoute(stairs.id, nodeNamed("Low Plaza - Northwest Corner").id, {});
+  check("a stairs node stays usable without a stairs restriction", Boolean(walking), "no route");
+}
+
+// Routing across a map link matches routing on one map. Only one campus map
+// exists, so it is split at a north-south line into a west map and an east
+// map drawn at twice the scale. Each corner where a path crosses the line is
+// on both maps, joined by a link, like the 116th Street corners.
+{
+  const from = nodeNamed("Dodge - North Ramp Entrance - Upper Campus");
+  const to = nodeNamed("Kent - North Ramp Entrance - Upper Campus");
+  const cut = (from.x + to.x) / 2;
+  const nodeById = new Map(graph.nodes.map((node) => [node.id, node]));
+  const isWest = (id) => nodeById.get(id).x <= cut;
+  const shared = new Set(
+    graph.edges
+      .filter((edge) => isWest(edge.sourceId) !== isWest(edge.targetId))
+      .map((edge) => (isWest(edge.sourceId) ? edge.targetId : edge.sourceId))
+  );
+  const westId = (id) => (shared.has(id) ? `${id}@west` : id);
+
+  const west = {
+    ...map,
+    id: "west",
+    graph: {
+      nodes: [
+        ...graph.nodes.filter((node) => isWest(node.id)),
+        ...[...shared].map((id) => ({ ...nodeById.get(id), id: westId(id) })),
+      ],
+      edges: graph.edges
+        .filter((edge) => isWest(edge.sourceId) || isWest(edge.targetId))
+        .map((edge) => ({ ...edge, sourceId: westId(edge.sourceId), targetId: westId(edge.targetId) })),
+    },
+  };
+  const east = {
+    ...map,
+    id: "east",
+    metersPerUnit: map.metersPerUnit / 2,
+    graph: {
+      nodes: graph.nodes.filter((node) => !isWest(node.id)).map((node) => ({ ...node, x: node.x * 2, y: node.y * 2 })),
+      edges: graph.edges
+        .filter((edge) => !isWest(edge.sourceId) && !isWest(edge.targetId))
+        .map((edge) => ({ ...edge, distance: edge.distance * 2 })),
+    },
+  };
+  const links = [...shared].map((id) => ({
+    id,
+    from: { mapId: "west", nodeId: westId(id) },
+    to: { mapId: "east", nodeId: id },
+  }));
+
+  const single = routeGraph.findRoute(from.id, to.id, {});
+  const linked = new RouteGraph(buildCampusGraph([west, east], links).data).findRoute(from.id, to.id, {});
+  check(
+    "a route across a map link is as long as the same route on one map",
+    Boolean(single && linked) &&
+      linked.edges.some(isMapLinkEdge) &&
+      Math.abs(linked.summary.totalDistance - single.summary.totalDistance) < 1e-6,
+    linked ? `${linked.summary.totalDistance} units, ${single?.summary.totalDistance} on one map` : "no route"
+  );
+  const steps = (route) => (route ? buildInstructions(route).map((instruction) => instruction.text) : []);
+  check(
+    "crossing a map link adds no steps",
+    steps(linked).join(" / ") === steps(single).join(" / "),
+    steps(linked).join(" / ")
+  );
+
+  const rejects = (badLinks) => {
+    try {
+      buildCampusGraph([west, east], badLinks);
+      return false;
+    } catch {
+      return true;
+    }
+  };
+  const [link] = links;
+  check(
+    "map links must join existing places on two different maps",
+    rejects([{ ...link, to: { mapId: "east", nodeId: "missing" } }]) &&
+      rejects([{ ...link, to: { mapId: "west", nodeId: link.from.nodeId } }]) &&
+      rejects([{ ...link, meters: -1 }]) &&
+      rejects([link, link]),
+    "an invalid link was accepted"
+  );
+}
+
+// Replays `fixes` through the tracker the way the navigation screen does; returns the progress after each fix
+const replay = (route, instructions, fixes) => {
+  const options = { metersPerUnit: map.metersPerUnit, isOnMap: () => true };
+  let progress = null;
+  return fixes.map((fix, index) => {
+    const position = locateOnMap({ ...fix, timestamp: index * 1000 }, map, graph);
+    progress = trackRoute(route, instructions, position, options, progress);
+    return progress;
+  });
+};
+
+// Walking a route advances through every step and arrives; straying reroutes after OFF_ROUTE_FIXES fixes
+{
+  const route = routeGraph.findRoute(
+    nodeNamed("NWC - Study Space").id,
+    nodeNamed("Low Plaza - Northwest Corner").id,
+    {}
+  );
+  const instructions = route ? buildInstructions(route) : [];
+  const fixes = route ? fixesAlongPath(nodesToLonLat(route.nodes, () => map.georeference)) : [];
+  const walked = replay(route, instructions, fixes);
+
+  const steps = walked.map((progress) => progress.stepIndex);
+  const visited = new Set(steps);
+  check(
+    "replaying a route advances through every step in order",
+    instructions.length > 2 &&
+      visited.size === instructions.length &&
+      steps.every((step, index) => index === 0 || step >= steps[index - 1]),
+    `steps ${[...visited].join(", ")} of ${instructions.length}`
+  );
+  const last = walked[walked.length - 1];
+  check(
+    "replaying a route arrives without going off route",
+    Boolean(last?.arrived) && walked.every((progress) => !progress.offRoute),
+    last ? `arrived: ${last.arrived}, off route at fix ${walked.findIndex((progress) => progress.offRoute)}` : "no fixes"
+  );
+
+  // Halfway along, step 100 m west of the route for a few fixes
+  const halfway = Math.floor(fixes.length / 2);
+  const stray = fixes
+    .slice(halfway, halfway + OFF_ROUTE_FIXES)
+    .map((fix) => ({ ...fix, lon: fix.lon - 100 / (111_320 * Math.cos((fix.lat * Math.PI) / 180)) }));
+  const strayed = replay(route, instructions, [...fixes.slice(0, halfway), ...stray]).slice(halfway);
+  check(
+    `straying from the route reroutes after ${OFF_ROUTE_FIXES} fixes, not before`,
+    strayed.length === OFF_ROUTE_FIXES &&
+      strayed.every((progress, index) => progress.offRoute === (index === OFF_ROUTE_FIXES - 1)),
+    `off route after each stray fix: ${strayed.map((progress) => progress.offRoute).join(", ")}`
+  );
+}
+
+process.exit(failed ? 1 : 0);
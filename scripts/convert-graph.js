@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+
+/**
+ * Converts graph files between the app's JSON format, GeoJSON and GraphML
+ * using utils/graph-formats.ts. Formats follow the file extensions (.json,
+ * .geojson, .graphml).
+ * Usage (from the project root):
+ *   npm run convert-graph -- <input> <output> [--calibration <file>]
+ * With --calibration, the map calibration file's "geo" control points
+ * georeference the graph, so GeoJSON and GraphML use lon/lat.
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+require("./ts-require");
+const { GraphLoadError, loadGraph, serializeGraph } = require("../utils/graph-schema.ts");
+const { fromGeoJSON, fromGraphML, toGeoJSON, toGraphML } = require("../utils/graph-formats.ts");
+const { solveGeoreference } = require("../utils/geo.ts");
+
+const args = process.argv.slice(2);
+const calibrationIndex = args.indexOf("--calibration");
+const calibrationFile = calibrationIndex >= 0 ? args[calibrationIndex + 1] : undefined;
+const [input, output] = args.filter(
+  (arg, index) => !arg.startsWith("--") && (calibrationIndex < 0 || index !== calibrationIndex + 1)
+);
+
+const formatOf = (file) => {
+  const extension = path.extname(file ?? "").toLowerCase();
+  return { ".json": "json", ".geojson": "geojson", ".graphml": "graphml" }[extension];
+};
+
+if (!input || !output || !formatOf(input) || !formatOf(output) || (calibrationIndex >= 0 && !calibrationFile)) {
+  console.error("Usage: npm run convert-graph -- <input.json|.geojson|.graphml> <output> [--calibration <file>]");
+  process.exit(1);
+}
+
+let georeference = null;
+if (calibrationFile) {
+  const { geo } = JSON.parse(fs.readFileSync(calibrationFile, "utf8"));
+  if (!geo) {
+    console.error(`${calibrationFile} has no "geo" control points; the map is not georeferenced`);
+    process.exit(1);
+  }
+  georeference = solveGeoreference(geo);
+}
+
+try {
+  const text = fs.readFileSync(input, "utf8");
+  const options = { georeference };
+  const data = {
+    json: () => loadGraph(JSON.parse(text), input),
+    geojson: () => fromGeoJSON(JSON.parse(text), options, input),
+    graphml: () => fromGraphML(text, options, input),
+  }[formatOf(input)]();
+
+  const contents = {
+    json: () => serializeGraph(data),
+    geojson: () => JSON.stringify(toGeoJSON(data, options), null, 2),
+    graphml: () => toGraphML(data, options),
+  }[formatOf(output)]();
+  fs.writeFileSync(output, contents);
+  console.log(`${output}: ${data.nodes.length} nodes, ${data.edges.length} edges`);
+} catch (error) {
+  if (error instanceof GraphLoadError) {
+    console.error(`${input}: cannot load graph`);
+    error.problems.forEach((problem) => console.error(`  ${problem}`));
+  } else {
+    console.error(`${input}: ${error.message}`);
+  }
+  process.exit(1);
+}
@@ -0,0 +1,36 @@
+/**
+ * Lets Node scripts require the app's TypeScript sources directly: .ts files
+ * are transpiled on require and the "@/" alias resolves to the project root.
+ * Required images resolve to their file path, standing in for the asset
+ * references Metro returns, so modules such as constants/map.ts load too.
+ * Run scripts from the project root.
+ */
+
+const fs = require("fs");
+const path = require("path");
+const Module = require("module");
+const ts = require("typescript");
+
+const root = process.cwd();
+
+require.extensions[".ts"] = (module, filename) => {
+  const source = fs.readFileSync(filename, "utf8");
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true,
+      resolveJsonModule: true,
+    },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+require.extensions[".png"] = (module, filename) => {
+  module.exports = filename;
+};
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, ...rest) {
+  const mapped = request.startsWith("@/") ? path.join(root, request.slice(2)) : request;
+  return resolveFilename.call(this, mapped, ...rest);
+};
@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+
+/**
+ * Loads graph files with utils/graph-schema.ts (upgrading older formats) and
+ * checks them for integrity problems using utils/graph-validation.ts.
+ * Usage (from the project root): npm run validate-graph -- [--strict] [file ...]
+ * Without files, every JSON file in assets/graphs is checked. Exits with 1
+ * when any file has errors, or warnings too with --strict.
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+const root = process.cwd();
+
+require("./ts-require");
+const { GraphLoadError, loadGraph } = require("../utils/graph-schema.ts");
+const { formatIssue, hasErrors, validateGraph } = require("../utils/graph-validation.ts");
+
+const args = process.argv.slice(2);
+const strict = args.includes("--strict");
+let files = args.filter((arg) => !arg.startsWith("--"));
+if (files.length === 0) {
+  const graphsDir = path.join(root, "assets", "graphs");
+  files = fs
+    .readdirSync(graphsDir)
+    .filter((name) => name.endsWith(".json"))
+    .map((name) => path.join(graphsDir, name));
+}
+
+let failed = false;
+for (const file of files) {
+  const name = path.relative(root, file);
+  let data;
+  try {
+    data = loadGraph(JSON.parse(fs.readFileSync(file, "utf8")), name);
+  } catch (error) {
+    if (error instanceof GraphLoadError) {
+      console.error(`${name}: cannot load graph`);
+      error.problems.forEach((problem) => console.error(`  ${problem}`));
+    } else {
+      console.error(`${name}: cannot read graph (${error.message})`);
+    }
+    failed = true;
+    continue;
+  }
+
+  const issues = validateGraph(data);
+  const errors = issues.filter((issue) => issue.severity === "error").length;
+  console.log(`${name}: ${errors} errors, ${issues.length - errors} warnings`);
+  issues.forEach((issue) => console.log(`  ${formatIssue(issue)}`));
+
+  if (hasErrors(issues) || (strict && issues.length > 0)) failed = true;
+}
+
+process.exit(failed ? 1 : 0);
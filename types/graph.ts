@@ -1,13 +1,32 @@
+/** How an edge moves between floors. */
+export type VerticalConnector = 'elevator' | 'lift' | 'stairs';
+
+/** What a node represents; decides its icon, marker visibility and routing rules. */
+export type NodeKind =
+  | 'elevator'
+  | 'lift'
+  | 'stairs'
+  | 'ramp'
+  | 'entrance'
+  | 'campus_entrance'
+  /** Passage joining two buildings. */
+  | 'connector'
+  /** Point along a walkway, street or corridor. */
+  | 'path'
+  /** Named place such as a lobby, lounge or building. */
+  | 'poi';
+
 export interface Node {
   id: string;
   x: number;
   y: number;
   name: string;
+  kind: NodeKind;
   no_stairs: boolean;
   outside_campus?: boolean;
   indoor?: boolean;
-  elevator?: boolean;
-  different_floor?: boolean;
+  /** Building floor as numbered on site; omitted for campus (street) level. */
+  floor?: number;
 }
 
 export interface Edge {
@@ -16,10 +35,11 @@ export interface Edge {
   targetId: string;
   distance: number;
   no_stairs: boolean;
+  /** Set on edges that change floor; omitted for edges within one level. */
+  vertical?: VerticalConnector;
 }
 
 export interface GraphData {
   nodes: Node[];
   edges: Edge[];
 }
-
@@ -0,0 +1,29 @@
+/** A graph position and the place it appears on the map image. */
+export interface ControlPoint {
+  /** Graph node the point was taken from, if any. */
+  nodeId?: string;
+  label?: string;
+  /** Graph coordinates. */
+  graph: { x: number; y: number };
+  /** Fraction (0-1) of the map image's width and height. */
+  image: { x: number; y: number };
+}
+
+/** A graph position and its real-world coordinates (WGS 84). */
+export interface GeoControlPoint {
+  nodeId?: string;
+  label?: string;
+  graph: { x: number; y: number };
+  lon: number;
+  lat: number;
+}
+
+/** Alignment of a graph with its map image, stored next to the image asset. */
+export interface MapCalibration {
+  /** File name of the calibrated image. */
+  image: string;
+  /** At least three points, not all on one line. */
+  controlPoints: ControlPoint[];
+  /** Georeferencing; the map has no lon/lat coordinates when omitted. */
+  geo?: GeoControlPoint[];
+}
@@ -0,0 +1,107 @@
+import { ControlPoint } from '@/types/map';
+import { Point } from '@/utils/map-coordinates';
+
+/**
+ * Maps (x, y) to (a*x + b*y + tx, c*x + d*y + ty). Covers any combination of
+ * scale, rotation, shear and translation.
+ */
+export type AffineTransform = {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  tx: number;
+  ty: number;
+};
+
+export const IDENTITY_TRANSFORM: AffineTransform = { a: 1, b: 0, c: 0, d: 1, tx: 0, ty: 0 };
+
+export const MIN_CONTROL_POINTS = 3;
+
+export function applyAffine(t: AffineTransform, point: Point): Point {
+  return {
+    x: t.a * point.x + t.b * point.y + t.tx,
+    y: t.c * point.x + t.d * point.y + t.ty,
+  };
+}
+
+export function invertAffine(t: AffineTransform): AffineTransform {
+  const det = t.a * t.d - t.b * t.c;
+  if (det === 0) throw new Error('Affine transform is not invertible');
+  const a = t.d / det;
+  const b = -t.b / det;
+  const c = -t.c / det;
+  const d = t.a / det;
+  return { a, b, c, d, tx: -(a * t.tx + b * t.ty), ty: -(c * t.tx + d * t.ty) };
+}
+
+/** Solves the 3x3 system `m * v = rhs` by Cramer's rule; null when singular. */
+function solve3(m: number[][], rhs: number[]): number[] | null {
+  const det3 = (k: number[][]) =>
+    k[0][0] * (k[1][1] * k[2][2] - k[1][2] * k[2][1]) -
+    k[0][1] * (k[1][0] * k[2][2] - k[1][2] * k[2][0]) +
+    k[0][2] * (k[1][0] * k[2][1] - k[1][1] * k[2][0]);
+
+  const det = det3(m);
+  const scale = Math.max(...m.flat().map(Math.abs));
+  if (!Number.isFinite(det) || Math.abs(det) <= 1e-12 * scale ** 3) return null;
+
+  return [0, 1, 2].map(col => det3(m.map((row, i) => row.map((value, j) => (j === col ? rhs[i] : value)))) / det);
+}
+
+/**
+ * Least-squares affine transform taking each point's `graph` position to its
+ * `image` position. Needs at least three points that are not all on one line.
+ */
+export function solveAffine(points: ControlPoint[]): AffineTransform {
+  if (points.length < MIN_CONTROL_POINTS) {
+    throw new Error(`Calibration needs at least ${MIN_CONTROL_POINTS} control points, got ${points.length}`);
+  }
+
+  // Center the graph positions so the normal equations stay well conditioned
+  const cx = points.reduce((sum, p) => sum + p.graph.x, 0) / points.length;
+  const cy = points.reduce((sum, p) => sum + p.graph.y, 0) / points.length;
+
+  const normal = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ];
+  const rhsX = [0, 0, 0];
+  const rhsY = [0, 0, 0];
+  points.forEach(p => {
+    const row = [p.graph.x - cx, p.graph.y - cy, 1];
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) normal[i][j] += row[i] * row[j];
+      rhsX[i] += row[i] * p.image.x;
+      rhsY[i] += row[i] * p.image.y;
+    }
+  });
+
+  const u = solve3(normal, rhsX);
+  const v = solve3(normal, rhsY);
+  if (!u || !v) throw new Error('Control points must not all lie on one line');
+
+  const [a, b, u0] = u;
+  const [c, d, v0] = v;
+  return { a, b, c, d, tx: u0 - a * cx - b * cy, ty: v0 - c * cx - d * cy };
+}
+
+export type CalibrationFit = {
+  transform: AffineTransform;
+  /** Distance from each point's predicted to its actual image position, in image pixels. */
+  residuals: number[];
+  /** Root mean square of `residuals`. */
+  rms: number;
+};
+
+/** Solves `points` and measures how far each one is from the fit on an image of the given size. */
+export function fitCalibration(points: ControlPoint[], imageWidth: number, imageHeight: number): CalibrationFit {
+  const transform = solveAffine(points);
+  const residuals = points.map(p => {
+    const predicted = applyAffine(transform, p.graph);
+    return Math.hypot((predicted.x - p.image.x) * imageWidth, (predicted.y - p.image.y) * imageHeight);
+  });
+  const rms = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / residuals.length);
+  return { transform, residuals, rms };
+}
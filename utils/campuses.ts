@@ -0,0 +1,120 @@
+import { Edge, GraphData, Node } from '@/types/graph';
+import { MapCalibration } from '@/types/map';
+import { AffineTransform, solveAffine } from '@/utils/affine';
+import { solveGeoreference } from '@/utils/geo';
+import { ImageSourcePropType } from 'react-native';
+
+/** One campus map: its graph, image and the calibration that aligns them. */
+export type CampusMap = {
+  id: string;
+  name: string;
+  graph: GraphData;
+  /** Map image, as returned by `require`. */
+  image: ImageSourcePropType;
+  calibration: MapCalibration;
+  /** Graph coordinates to image fractions, solved from `calibration`. */
+  transform: AffineTransform;
+  /** Graph coordinates to lon/lat, solved from `calibration.geo`; null when the map is not georeferenced. */
+  georeference: AffineTransform | null;
+  /** Meters per graph unit on this map. */
+  metersPerUnit: number;
+};
+
+/** A place that appears on two maps, such as a street corner at the edge of both. */
+export type MapLink = {
+  id: string;
+  from: { mapId: string; nodeId: string };
+  to: { mapId: string; nodeId: string };
+  /** Walking distance between the two nodes in meters; 0 (the default) when they are the same place. */
+  meters?: number;
+};
+
+/** Every map's graph merged into one, with map links as edges between them. */
+export type CampusGraph = {
+  data: GraphData;
+  /** Map each node id belongs to. */
+  mapIdByNode: Map<string, string>;
+};
+
+/** Prefix of edge ids created for map links. */
+export const MAP_LINK_ID_PREFIX = 'link:';
+
+export function createCampusMap(map: Omit<CampusMap, 'transform' | 'georeference'>): CampusMap {
+  const { controlPoints, geo } = map.calibration;
+  return { ...map, transform: solveAffine(controlPoints), georeference: geo ? solveGeoreference(geo) : null };
+}
+
+export const isMapLinkEdge = (edge: Edge) => edge.id.startsWith(MAP_LINK_ID_PREFIX);
+
+/**
+ * Merges `maps` into one routable graph. Edge distances are rescaled to the
+ * graph units of `maps[0]`, so costs compare across maps; coordinates are
+ * left as they are, since each map only ever draws its own nodes.
+ *
+ * Coordinates of different maps are unrelated, so a link between far-apart
+ * coordinates weakens the A* heuristic (down to plain Dijkstra). Campus
+ * graphs are small enough for that not to matter.
+ *
+ * Throws when a node id is on two maps, or a link is invalid: an end that is
+ * not on its map, both ends on one map, a repeated id or a negative length.
+ */
+export function buildCampusGraph(maps: CampusMap[], links: MapLink[]): CampusGraph {
+  const unitMeters = maps[0]?.metersPerUnit ?? 1;
+  const mapIdByNode = new Map<string, string>();
+  const nodes: Node[] = [];
+  const edges: Edge[] = [];
+
+  maps.forEach(map => {
+    map.graph.nodes.forEach(node => {
+      const other = mapIdByNode.get(node.id);
+      if (other !== undefined) {
+        throw new Error(`Node ${node.id} is on both the ${other} and ${map.id} maps`);
+      }
+      mapIdByNode.set(node.id, map.id);
+      nodes.push(node);
+    });
+
+    const scale = map.metersPerUnit / unitMeters;
+    map.graph.edges.forEach(edge => {
+      edges.push(scale === 1 ? edge : { ...edge, distance: edge.distance * scale });
+    });
+  });
+
+  const linkIds = new Set<string>();
+  links.forEach(link => {
+    if (linkIds.has(link.id)) throw new Error(`Map link ${link.id} is defined twice`);
+    linkIds.add(link.id);
+    [link.from, link.to].forEach(end => {
+      if (mapIdByNode.get(end.nodeId) !== end.mapId) {
+        throw new Error(`Map link ${link.id} points at ${end.nodeId}, which is not on the ${end.mapId} map`);
+      }
+    });
+    if (link.from.mapId === link.to.mapId) {
+      throw new Error(`Map link ${link.id} joins two places on the ${link.from.mapId} map; use a graph edge instead`);
+    }
+    const meters = link.meters ?? 0;
+    if (!Number.isFinite(meters) || meters < 0) {
+      throw new Error(`Map link ${link.id} has an invalid length of ${meters} m`);
+    }
+    edges.push({
+      id: `${MAP_LINK_ID_PREFIX}${link.id}`,
+      sourceId: link.from.nodeId,
+      targetId: link.to.nodeId,
+      distance: meters / unitMeters,
+      no_stairs: true,
+    });
+  });
+
+  return { data: { nodes, edges }, mapIdByNode };
+}
+
+/** Nodes for which `mapIdOf` returns `mapId`, and the edges between them. */
+export function filterGraphByMap(
+  data: GraphData,
+  mapId: string,
+  mapIdOf: (node: Node) => string | undefined
+): GraphData {
+  const nodes = data.nodes.filter(node => mapIdOf(node) === mapId);
+  const ids = new Set(nodes.map(node => node.id));
+  return { nodes, edges: data.edges.filter(edge => ids.has(edge.sourceId) && ids.has(edge.targetId)) };
+}
@@ -0,0 +1,154 @@
+import { getCampusMap, mapIdOfNode } from '@/constants/map';
+import { Edge, Node } from '@/types/graph';
+import { imageFractionToGraph, Point, projectOntoSegment } from '@/utils/map-coordinates';
+import { Report, ReportTag } from '@/utils/reports';
+import { ClosureSet, RouteGraph, RouteResult } from '@/utils/routing';
+
+/** Reports farther than these (graph units) from the graph are ignored. */
+export const NODE_SNAP_RADIUS = 25;
+export const EDGE_SNAP_RADIUS = 35;
+
+/** Extra cost for passing a place under construction; usable, but only as a last resort. */
+export const CONSTRUCTION_PENALTY = 1000;
+
+/**
+ * A report snapped onto the graph. `broken` reports close the place outright,
+ * `construction` reports only penalize it.
+ */
+export type Closure = {
+  report: Report;
+  tag: ReportTag;
+  /** Set when the report is within `NODE_SNAP_RADIUS` of a node. */
+  node?: Node;
+  /** Set otherwise, when the report lies near an edge. */
+  edge?: Edge;
+  /** Display name, e.g. "Mudd - Elevator" or "path between A and B". */
+  label: string;
+};
+
+const squaredDistance = (a: Point, b: Point) => (a.x - b.x) ** 2 + (a.y - b.y) ** 2;
+
+/**
+ * Snaps a report to the nearest node, or failing that to the nearest edge, of
+ * the map it was placed on. Returns null for reports without a map position
+ * or too far from the graph.
+ */
+export function snapReport(graph: RouteGraph, report: Report): Closure | null {
+  if (!report.imagePosition) return null;
+  const map = getCampusMap(report.mapId);
+  const point = imageFractionToGraph(report.imagePosition, map.transform);
+  const onMap = (id: string) => mapIdOfNode(id) === map.id;
+
+  let nearestNode: Node | undefined;
+  let nodeDistance = NODE_SNAP_RADIUS ** 2;
+  graph.nodes.forEach(node => {
+    if (!onMap(node.id)) return;
+    const distance = squaredDistance(point, node);
+    if (distance <= nodeDistance) {
+      nodeDistance = distance;
+      nearestNode = node;
+    }
+  });
+  if (nearestNode) {
+    return { report, tag: report.tags, node: nearestNode, label: nearestNode.name };
+  }
+
+  let nearestEdge: Edge | undefined;
+  let edgeDistance = EDGE_SNAP_RADIUS;
+  graph.edges.forEach(edge => {
+    if (!onMap(edge.sourceId) || !onMap(edge.targetId)) return;
+    const source = graph.getNode(edge.sourceId)!;
+    const target = graph.getNode(edge.targetId)!;
+    const { distance } = projectOntoSegment(point, source, target);
+    if (distance <= edgeDistance) {
+      edgeDistance = distance;
+      nearestEdge = edge;
+    }
+  });
+  if (nearestEdge) {
+    const source = graph.getNode(nearestEdge.sourceId)!;
+    const target = graph.getNode(nearestEdge.targetId)!;
+    return {
+      report,
+      tag: report.tags,
+      edge: nearestEdge,
+      label: `path between ${source.name} and ${target.name}`,
+    };
+  }
+
+  return null;
+}
+
+const isClosureReport = (report: Report) => report.tags === 'broken' || report.tags === 'construction';
+
+/** Snaps every `broken` or `construction` report that lies on the graph. */
+export function buildClosures(graph: RouteGraph, reports: Report[]): Closure[] {
+  return reports
+    .filter(isClosureReport)
+    .map(report => snapReport(graph, report))
+    .filter((closure): closure is Closure => closure !== null);
+}
+
+/**
+ * `broken` and `construction` reports that `buildClosures` cannot place: ones
+ * saved before reports had a map position, with only the screen `x`/`y` they
+ * were dropped at. The Reports screen converts them once it is opened.
+ */
+export function unplacedReports(reports: Report[]): Report[] {
+  return reports.filter(report => isClosureReport(report) && !report.imagePosition);
+}
+
+/** Routing input for `closures`; see `RoutePreferences.closures`. */
+export function toClosureSet(closures: Closure[], penalty = CONSTRUCTION_PENALTY): ClosureSet {
+  const set = {
+    closedNodeIds: new Set<string>(),
+    closedEdgeIds: new Set<string>(),
+    penalizedNodeIds: new Set<string>(),
+    penalizedEdgeIds: new Set<string>(),
+    penalty,
+  };
+
+  closures.forEach(closure => {
+    const closed = closure.tag === 'broken';
+    if (closure.node) {
+      (closed ? set.closedNodeIds : set.penalizedNodeIds).add(closure.node.id);
+    } else if (closure.edge) {
+      (closed ? set.closedEdgeIds : set.penalizedEdgeIds).add(closure.edge.id);
+    }
+  });
+
+  return set;
+}
+
+/** Closures whose node or edge is part of `route`. */
+export function closuresOnRoute(closures: Closure[], route: RouteResult): Closure[] {
+  const nodeIds = new Set(route.nodes.map(node => node.id));
+  const edgeIds = new Set(route.edges.map(edge => edge.id));
+  return closures.filter(closure =>
+    closure.node ? nodeIds.has(closure.node.id) : !!closure.edge && edgeIds.has(closure.edge.id)
+  );
+}
+
+/** "just now", "5 minutes ago", "2 days ago", ... */
+export function formatTimeAgo(isoDate: string, now = Date.now()): string {
+  const elapsed = now - new Date(isoDate).getTime();
+  if (!Number.isFinite(elapsed)) return 'recently';
+
+  const units: [string, number][] = [
+    ['day', 24 * 60 * 60 * 1000],
+    ['hour', 60 * 60 * 1000],
+    ['minute', 60 * 1000],
+  ];
+  for (const [unit, size] of units) {
+    const count = Math.floor(elapsed / size);
+    if (count >= 1) return `${count} ${unit}${count === 1 ? '' : 's'} ago`;
+  }
+  return 'just now';
+}
+
+/** e.g. "Mudd - Elevator (reported broken 2 days ago)" */
+export function describeClosure(closure: Closure, now = Date.now()): string {
+  const status = closure.tag === 'broken' ? 'broken' : 'under construction';
+  const when = closure.report.createdAt ? ` ${formatTimeAgo(closure.report.createdAt, now)}` : '';
+  return `${closure.label} (reported ${status}${when})`;
+}
@@ -0,0 +1,145 @@
+import { Edge, GraphData, Node } from '@/types/graph';
+import { Point, projectOntoSegment } from '@/utils/map-coordinates';
+import { ClosureSet } from '@/utils/routing';
+
+/** Prefix of node ids created for dropped pins. */
+export const PIN_ID_PREFIX = 'pin:';
+
+/** Long presses farther than this (graph units) from every path are ignored. */
+export const MAX_PIN_SNAP_DISTANCE = 60;
+
+/** Where a point lands on an edge; `t` runs from 0 at the source to 1 at the target. */
+export type EdgeSnap = {
+  edge: Edge;
+  t: number;
+  point: Point;
+  /** Distance from the original point to `point`, in graph units. */
+  distance: number;
+};
+
+/** A virtual node placed on an edge, usable as a start, stop or destination. */
+export type DroppedPin = {
+  node: Node;
+  snap: EdgeSnap;
+};
+
+/** Graph with pin edges split; `pieces` maps each split edge id to its replacement edge ids. */
+export type SplitGraph = {
+  data: GraphData;
+  pieces: Map<string, string[]>;
+};
+
+/**
+ * Projects `point` onto the nearest edge. Vertical edges are skipped since a
+ * pin cannot stand inside an elevator shaft or stairwell.
+ */
+export function snapToEdge(
+  data: GraphData,
+  point: Point,
+  maxDistance = MAX_PIN_SNAP_DISTANCE
+): EdgeSnap | null {
+  const nodeById = new Map(data.nodes.map(node => [node.id, node]));
+
+  let best: EdgeSnap | null = null;
+  data.edges.forEach(edge => {
+    if (edge.vertical) return;
+    const source = nodeById.get(edge.sourceId);
+    const target = nodeById.get(edge.targetId);
+    if (!source || !target) return;
+
+    const projection = projectOntoSegment(point, source, target);
+    if (projection.distance <= maxDistance && (!best || projection.distance < best.distance)) {
+      best = { edge, ...projection };
+    }
+  });
+
+  return best;
+}
+
+/** Builds a pin node at `snap`, inheriting the attributes both edge endpoints share. */
+export function createPin(data: GraphData, snap: EdgeSnap, id: string): DroppedPin {
+  const source = data.nodes.find(node => node.id === snap.edge.sourceId)!;
+  const target = data.nodes.find(node => node.id === snap.edge.targetId)!;
+  const nearest = snap.t <= 0.5 ? source : target;
+
+  return {
+    snap,
+    node: {
+      id: `${PIN_ID_PREFIX}${id}`,
+      x: snap.point.x,
+      y: snap.point.y,
+      name: `Pin near ${nearest.name}`,
+      kind: 'path',
+      no_stairs: snap.edge.no_stairs,
+      indoor: source.indoor === true && target.indoor === true,
+      outside_campus: source.outside_campus === true && target.outside_campus === true,
+      ...(source.floor === target.floor && source.floor !== undefined && { floor: source.floor }),
+    },
+  };
+}
+
+export const isPinNode = (node: Node) => node.id.startsWith(PIN_ID_PREFIX);
+
+/**
+ * Copy of `data` where every edge holding pins is replaced by a chain of
+ * shorter edges through those pins. Piece distances are proportional to the
+ * original edge's `distance`, so route costs stay consistent.
+ */
+export function splitEdges(data: GraphData, pins: DroppedPin[]): SplitGraph {
+  const pieces = new Map<string, string[]>();
+  if (pins.length === 0) return { data, pieces };
+
+  const pinsByEdge = new Map<string, DroppedPin[]>();
+  pins.forEach(pin => {
+    const list = pinsByEdge.get(pin.snap.edge.id) ?? [];
+    list.push(pin);
+    pinsByEdge.set(pin.snap.edge.id, list);
+  });
+
+  const edges: Edge[] = [];
+  data.edges.forEach(edge => {
+    const onEdge = pinsByEdge.get(edge.id);
+    if (!onEdge) {
+      edges.push(edge);
+      return;
+    }
+
+    const stops = [...onEdge].sort((a, b) => a.snap.t - b.snap.t);
+    const chain = [
+      { id: edge.sourceId, t: 0 },
+      ...stops.map(pin => ({ id: pin.node.id, t: pin.snap.t })),
+      { id: edge.targetId, t: 1 },
+    ];
+    const ids: string[] = [];
+    for (let i = 1; i < chain.length; i++) {
+      const id = `${edge.id}~${i - 1}`;
+      ids.push(id);
+      edges.push({
+        ...edge,
+        id,
+        sourceId: chain[i - 1].id,
+        targetId: chain[i].id,
+        distance: edge.distance * (chain[i].t - chain[i - 1].t),
+      });
+    }
+    pieces.set(edge.id, ids);
+  });
+
+  return {
+    data: { nodes: [...data.nodes, ...pins.map(pin => pin.node)], edges },
+    pieces,
+  };
+}
+
+/** `closures` with edge ids rewritten to the pieces they were split into. */
+export function remapClosureSet(closures: ClosureSet, split: SplitGraph): ClosureSet {
+  if (split.pieces.size === 0) return closures;
+
+  const expand = (ids?: ReadonlySet<string>) =>
+    ids && new Set([...ids].flatMap(id => split.pieces.get(id) ?? [id]));
+  return {
+    ...closures,
+    closedEdgeIds: expand(closures.closedEdgeIds),
+    penalizedEdgeIds: expand(closures.penalizedEdgeIds),
+  };
+}
@@ -0,0 +1,60 @@
+import { Edge, GraphData, Node, VerticalConnector } from '@/types/graph';
+import { isElevatorNode, isStairNode } from '@/utils/node-kinds';
+
+/** Floor of nodes without a `floor` (campus and street level). */
+export const DEFAULT_FLOOR = 1;
+
+export const nodeFloor = (node: Node) => node.floor ?? DEFAULT_FLOOR;
+
+/** Stair edges are flagged by `no_stairs === false` or typed as vertical stairs. */
+export const isStairEdge = (edge: Edge) => edge.no_stairs === false || edge.vertical === 'stairs';
+
+/**
+ * Whether traversing `edge` into `to` takes stairs: a stair edge, or a step
+ * onto a `stairs` node, whatever its edges are flagged as.
+ */
+export const usesStairs = (edge: Edge, to: Node) => isStairEdge(edge) || isStairNode(to);
+
+/** A change of floor along one route segment. */
+export type FloorChange = {
+  from: number;
+  to: number;
+  connector: VerticalConnector;
+  /** Elevator or lift node used, when the connector has one. */
+  via: Node | null;
+};
+
+/** Floor change made by traversing `edge` from `from` to `to`, or null for a level edge. */
+export function floorChangeOf(from: Node, to: Node, edge: Edge): FloorChange | null {
+  if (!edge.vertical) return null;
+
+  const via =
+    edge.vertical === 'stairs' ? null : isElevatorNode(from) ? from : isElevatorNode(to) ? to : null;
+  return { from: nodeFloor(from), to: nodeFloor(to), connector: edge.vertical, via };
+}
+
+/** e.g. "Take NWC - Elevator to floor 4" or "Take the stairs down to floor 2". */
+export function describeFloorChange(change: FloorChange): string {
+  const target = `to floor ${change.to}`;
+  if (change.via) return `Take ${change.via.name} ${target}`;
+
+  const direction = change.to > change.from ? 'up ' : change.to < change.from ? 'down ' : '';
+  const connector = change.connector === 'stairs' ? 'the stairs' : `the ${change.connector}`;
+  return `Take ${connector} ${direction}${target}`;
+}
+
+/** Elevators and lifts serve several floors, so they are shown on every floor. */
+export const isConnectorNode = isElevatorNode;
+
+/** Distinct floors in ascending order. */
+export function listFloors(data: GraphData): number[] {
+  return [...new Set(data.nodes.map(nodeFloor))].sort((a, b) => a - b);
+}
+
+/** Nodes on `floor` plus connectors, and the edges between them. */
+export function filterGraphByFloor(data: GraphData, floor: number): GraphData {
+  const nodes = data.nodes.filter(node => nodeFloor(node) === floor || isConnectorNode(node));
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const edges = data.edges.filter(edge => nodeIds.has(edge.sourceId) && nodeIds.has(edge.targetId));
+  return { nodes, edges };
+}
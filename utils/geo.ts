@@ -0,0 +1,41 @@
+import { GeoControlPoint } from '@/types/map';
+import { AffineTransform, applyAffine, invertAffine, solveAffine } from '@/utils/affine';
+
+/** WGS 84 coordinates in degrees. */
+export type LonLat = { lon: number; lat: number };
+
+// Length of one degree of latitude (and of longitude at the equator)
+const METERS_PER_DEGREE = 111_320;
+
+/** Meters between two positions; an equirectangular approximation, fine over a campus. */
+export function metersBetween(a: LonLat, b: LonLat): number {
+  const latRadians = (((a.lat + b.lat) / 2) * Math.PI) / 180;
+  const dx = (b.lon - a.lon) * Math.cos(latRadians);
+  const dy = b.lat - a.lat;
+  return Math.hypot(dx, dy) * METERS_PER_DEGREE;
+}
+
+/** Degrees clockwise from north for the direction from `a` to `b`. */
+export function bearing(a: LonLat, b: LonLat): number {
+  const latRadians = (((a.lat + b.lat) / 2) * Math.PI) / 180;
+  const angle = (Math.atan2((b.lon - a.lon) * Math.cos(latRadians), b.lat - a.lat) * 180) / Math.PI;
+  return (angle + 360) % 360;
+}
+
+/**
+ * Affine transform from graph coordinates to lon/lat (x = lon, y = lat).
+ * Over a campus the curvature of the earth is negligible, so an affine fit
+ * is as good as a proper projection.
+ */
+export function solveGeoreference(points: GeoControlPoint[]): AffineTransform {
+  return solveAffine(points.map(point => ({ graph: point.graph, image: { x: point.lon, y: point.lat } })));
+}
+
+export function graphToLonLat(point: { x: number; y: number }, georeference: AffineTransform): LonLat {
+  const { x, y } = applyAffine(georeference, point);
+  return { lon: x, lat: y };
+}
+
+export function lonLatToGraph(position: LonLat, georeference: AffineTransform): { x: number; y: number } {
+  return applyAffine(invertAffine(georeference), { x: position.lon, y: position.lat });
+}
@@ -0,0 +1,181 @@
+import { Edge, GraphData, Node, NodeKind } from '@/types/graph';
+
+/** Node attributes the editor toggles. */
+export type NodeFlag = 'no_stairs' | 'indoor' | 'outside_campus';
+
+export const NODE_FLAGS: { flag: NodeFlag; label: string }[] = [
+  { flag: 'no_stairs', label: 'Step-free' },
+  { flag: 'indoor', label: 'Indoor' },
+  { flag: 'outside_campus', label: 'Outside Campus' },
+];
+
+export type GraphEdit =
+  | { type: 'add-node'; node: Node }
+  | { type: 'move-node'; id: string; x: number; y: number }
+  | { type: 'rename-node'; id: string; name: string }
+  | { type: 'set-node-kind'; id: string; kind: NodeKind }
+  | { type: 'toggle-node-flag'; id: string; flag: NodeFlag }
+  | { type: 'delete-node'; id: string }
+  | { type: 'add-edge'; id: string; sourceId: string; targetId: string }
+  | { type: 'toggle-edge-stairs'; id: string }
+  | { type: 'delete-edge'; id: string };
+
+export type EditorAction = GraphEdit | { type: 'undo' } | { type: 'redo' } | { type: 'load'; data: GraphData };
+
+export type EditorHistory = {
+  past: GraphData[];
+  present: GraphData;
+  future: GraphData[];
+};
+
+// Oldest undo steps are dropped beyond this
+export const MAX_HISTORY = 100;
+
+/** Random RFC 4122 version 4 id, the format the graph files use. */
+export function createId(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = Math.floor(Math.random() * 16);
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+}
+
+/** Edge distance between two nodes, rounded like the hand-measured graph files. */
+export const edgeLength = (a: Node, b: Node) => Math.round(Math.hypot(a.x - b.x, a.y - b.y));
+
+// Coordinates snap to half units, as in the graph files
+const snapCoordinate = (value: number) => Math.round(value * 2) / 2;
+
+/** A new node at `point`, with the attributes most hand-added nodes use. */
+export function createNode(point: { x: number; y: number }, name: string): Node {
+  return {
+    id: createId(),
+    x: snapCoordinate(point.x),
+    y: snapCoordinate(point.y),
+    name,
+    kind: 'path',
+    no_stairs: true,
+    indoor: false,
+    outside_campus: false,
+  };
+}
+
+/** Recomputes the distance of every edge touching `nodeId`; vertical edges keep theirs. */
+function remeasureEdges(data: GraphData, nodeId: string): Edge[] {
+  const nodeById = new Map(data.nodes.map(node => [node.id, node]));
+  return data.edges.map(edge => {
+    if (edge.vertical || (edge.sourceId !== nodeId && edge.targetId !== nodeId)) return edge;
+    return { ...edge, distance: edgeLength(nodeById.get(edge.sourceId)!, nodeById.get(edge.targetId)!) };
+  });
+}
+
+/**
+ * `data` with `edit` applied. Returns `data` itself when the edit changes
+ * nothing, e.g. an edge that already exists or a node that was deleted.
+ * Deleting a node deletes its edges, so the result is always a valid graph.
+ */
+export function applyEdit(data: GraphData, edit: GraphEdit): GraphData {
+  const updateNode = (id: string, update: (node: Node) => Node): GraphData => {
+    if (!data.nodes.some(node => node.id === id)) return data;
+    return { ...data, nodes: data.nodes.map(node => (node.id === id ? update(node) : node)) };
+  };
+
+  switch (edit.type) {
+    case 'add-node':
+      if (data.nodes.some(node => node.id === edit.node.id)) return data;
+      return { ...data, nodes: [...data.nodes, edit.node] };
+
+    case 'move-node': {
+      const moved = updateNode(edit.id, node => ({ ...node, x: snapCoordinate(edit.x), y: snapCoordinate(edit.y) }));
+      return moved === data ? data : { ...moved, edges: remeasureEdges(moved, edit.id) };
+    }
+
+    case 'rename-node':
+      return updateNode(edit.id, node => ({ ...node, name: edit.name }));
+
+    case 'set-node-kind': {
+      const node = data.nodes.find(candidate => candidate.id === edit.id);
+      if (!node || node.kind === edit.kind) return data;
+      return updateNode(edit.id, current => ({ ...current, kind: edit.kind }));
+    }
+
+    case 'toggle-node-flag':
+      return updateNode(edit.id, node => ({ ...node, [edit.flag]: node[edit.flag] !== true }));
+
+    case 'delete-node':
+      if (!data.nodes.some(node => node.id === edit.id)) return data;
+      return {
+        nodes: data.nodes.filter(node => node.id !== edit.id),
+        edges: data.edges.filter(edge => edge.sourceId !== edit.id && edge.targetId !== edit.id),
+      };
+
+    case 'add-edge': {
+      const source = data.nodes.find(node => node.id === edit.sourceId);
+      const target = data.nodes.find(node => node.id === edit.targetId);
+      const exists = data.edges.some(
+        edge =>
+          (edge.sourceId === edit.sourceId && edge.targetId === edit.targetId) ||
+          (edge.sourceId === edit.targetId && edge.targetId === edit.sourceId)
+      );
+      if (!source || !target || source === target || exists) return data;
+      return {
+        ...data,
+        edges: [
+          ...data.edges,
+          {
+            id: edit.id,
+            sourceId: source.id,
+            targetId: target.id,
+            distance: edgeLength(source, target),
+            no_stairs: source.no_stairs && target.no_stairs,
+          },
+        ],
+      };
+    }
+
+    case 'toggle-edge-stairs':
+      if (!data.edges.some(edge => edge.id === edit.id)) return data;
+      return {
+        ...data,
+        edges: data.edges.map(edge => (edge.id === edit.id ? { ...edge, no_stairs: !edge.no_stairs } : edge)),
+      };
+
+    case 'delete-edge':
+      if (!data.edges.some(edge => edge.id === edit.id)) return data;
+      return { ...data, edges: data.edges.filter(edge => edge.id !== edit.id) };
+  }
+}
+
+export const createHistory = (data: GraphData): EditorHistory => ({ past: [], present: data, future: [] });
+
+/** Undo/redo wrapper around `applyEdit`; edits that change nothing are not recorded. */
+export function editorReducer(history: EditorHistory, action: EditorAction): EditorHistory {
+  switch (action.type) {
+    case 'undo': {
+      if (history.past.length === 0) return history;
+      const previous = history.past[history.past.length - 1];
+      return { past: history.past.slice(0, -1), present: previous, future: [history.present, ...history.future] };
+    }
+    case 'redo': {
+      if (history.future.length === 0) return history;
+      const [next, ...future] = history.future;
+      return { past: [...history.past, history.present], present: next, future };
+    }
+    case 'load':
+      return createHistory(action.data);
+    default: {
+      const present = applyEdit(history.present, action);
+      if (present === history.present) return history;
+      return { past: [...history.past, history.present].slice(-MAX_HISTORY), present, future: [] };
+    }
+  }
+}
+
+/** Edges touching `nodeId`, each with the node at its other end. */
+export function edgesOfNode(data: GraphData, nodeId: string): { edge: Edge; neighbor: Node }[] {
+  const nodeById = new Map(data.nodes.map(node => [node.id, node]));
+  return data.edges.flatMap(edge => {
+    const otherId = edge.sourceId === nodeId ? edge.targetId : edge.targetId === nodeId ? edge.sourceId : null;
+    const neighbor = otherId === null ? undefined : nodeById.get(otherId);
+    return neighbor ? [{ edge, neighbor }] : [];
+  });
+}
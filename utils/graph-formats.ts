@@ -0,0 +1,324 @@
+import { Edge, GraphData, Node } from '@/types/graph';
+import { AffineTransform } from '@/utils/affine';
+import { graphToLonLat, lonLatToGraph } from '@/utils/geo';
+import { GRAPH_SCHEMA_VERSION, GraphLoadError, isRecord, loadGraph } from '@/utils/graph-schema';
+
+/**
+ * Converters between `GraphData` and the formats GIS and diagram tools read:
+ * GeoJSON (QGIS) and GraphML (yEd). With a georeference, coordinates are
+ * written as lon/lat and read back into graph units; without one they stay
+ * in graph units. Imports go through `loadGraph`, so they are checked and
+ * upgraded like any graph file.
+ */
+export type GraphFormatOptions = {
+  /** Graph coordinates to lon/lat, e.g. `CampusMap.georeference`. */
+  georeference?: AffineTransform | null;
+};
+
+type AttributeType = 'string' | 'boolean' | 'int' | 'double';
+
+// Every attribute besides id and position. Typed as a full Record so a new
+// Node or Edge field fails to compile until the converters know about it.
+const NODE_ATTRIBUTES: Record<Exclude<keyof Node, 'id' | 'x' | 'y'>, AttributeType> = {
+  name: 'string',
+  kind: 'string',
+  no_stairs: 'boolean',
+  outside_campus: 'boolean',
+  indoor: 'boolean',
+  floor: 'int',
+};
+
+const EDGE_ATTRIBUTES: Record<Exclude<keyof Edge, 'id' | 'sourceId' | 'targetId'>, AttributeType> = {
+  distance: 'double',
+  no_stairs: 'boolean',
+  vertical: 'string',
+};
+
+// Lon/lat turned back into graph units are rounded to this many decimals
+// to drop floating point noise
+const GRAPH_PRECISION = 6;
+
+const roundGraph = (value: number) => Number(value.toFixed(GRAPH_PRECISION));
+
+const attributesOf = (record: object, attributes: Record<string, AttributeType>) =>
+  Object.fromEntries(
+    Object.keys(attributes)
+      .filter(name => (record as Record<string, unknown>)[name] !== undefined)
+      .map(name => [name, (record as Record<string, unknown>)[name]])
+  );
+
+function toPosition(node: Node, georeference: AffineTransform | null | undefined): [number, number] {
+  if (!georeference) return [node.x, node.y];
+  const { lon, lat } = graphToLonLat(node, georeference);
+  return [lon, lat];
+}
+
+function fromPosition(position: [number, number], georeference: AffineTransform | null | undefined) {
+  const point = georeference
+    ? lonLatToGraph({ lon: position[0], lat: position[1] }, georeference)
+    : { x: position[0], y: position[1] };
+  return { x: roundGraph(point.x), y: roundGraph(point.y) };
+}
+
+/** Marks whether a GeoJSON file's coordinates are lon/lat or graph units. */
+type CoordinateUnits = 'lonlat' | 'graph';
+
+/**
+ * Nodes as Point features and edges as two-point LineString features, with
+ * every attribute under `properties`. Properties and feature ids survive a
+ * QGIS round trip; the top-level `schemaVersion` and `units` may not, and
+ * are optional on import.
+ */
+export function toGeoJSON(data: GraphData, options: GraphFormatOptions = {}) {
+  const { georeference } = options;
+  const nodeById = new Map(data.nodes.map(node => [node.id, node]));
+  const units: CoordinateUnits = georeference ? 'lonlat' : 'graph';
+
+  const nodeFeatures = data.nodes.map(node => ({
+    type: 'Feature' as const,
+    id: node.id,
+    geometry: { type: 'Point' as const, coordinates: toPosition(node, georeference) },
+    properties: { element: 'node', id: node.id, ...attributesOf(node, NODE_ATTRIBUTES) },
+  }));
+  const edgeFeatures = data.edges.flatMap(edge => {
+    const source = nodeById.get(edge.sourceId);
+    const target = nodeById.get(edge.targetId);
+    if (!source || !target) return [];
+    return [
+      {
+        type: 'Feature' as const,
+        id: edge.id,
+        geometry: {
+          type: 'LineString' as const,
+          coordinates: [toPosition(source, georeference), toPosition(target, georeference)],
+        },
+        properties: {
+          element: 'edge',
+          id: edge.id,
+          sourceId: edge.sourceId,
+          targetId: edge.targetId,
+          ...attributesOf(edge, EDGE_ATTRIBUTES),
+        },
+      },
+    ];
+  });
+
+  return {
+    type: 'FeatureCollection' as const,
+    schemaVersion: GRAPH_SCHEMA_VERSION,
+    units,
+    features: [...nodeFeatures, ...edgeFeatures],
+  };
+}
+
+/**
+ * Reads a FeatureCollection written by `toGeoJSON` (or edited in QGIS).
+ * Point features become nodes and LineString features edges; an edge's
+ * geometry is ignored in favour of its `sourceId` and `targetId`.
+ */
+export function fromGeoJSON(json: unknown, options: GraphFormatOptions = {}, source?: string): GraphData {
+  const collection = json as { type?: unknown; features?: unknown; schemaVersion?: unknown; units?: unknown };
+  if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new GraphLoadError(['file must be a GeoJSON FeatureCollection'], source);
+  }
+
+  const units: CoordinateUnits =
+    collection.units === 'graph' || collection.units === 'lonlat'
+      ? collection.units
+      : options.georeference
+        ? 'lonlat'
+        : 'graph';
+  if (units === 'lonlat' && !options.georeference) {
+    throw new GraphLoadError(['coordinates are lon/lat, but the map is not georeferenced'], source);
+  }
+  const georeference = units === 'lonlat' ? options.georeference : null;
+
+  const problems: string[] = [];
+  const nodes: Record<string, unknown>[] = [];
+  const edges: Record<string, unknown>[] = [];
+  collection.features.forEach((item: unknown, index: number) => {
+    if (!isRecord(item)) {
+      problems.push(`features[${index}] must be an object`);
+      return;
+    }
+    const feature = item as { id?: unknown; properties?: unknown; geometry?: unknown };
+    if (feature.properties != null && !isRecord(feature.properties)) {
+      problems.push(`features[${index}].properties must be an object`);
+      return;
+    }
+    const geometry = (isRecord(feature.geometry) ? feature.geometry : {}) as { type?: unknown; coordinates?: unknown };
+
+    // QGIS writes null for attributes a feature does not have
+    const properties = Object.fromEntries(
+      Object.entries(feature.properties ?? {}).filter(([name, value]) => value !== null && name !== 'element')
+    );
+    const id = properties.id ?? feature.id;
+    const type = geometry.type;
+    if (type === 'Point') {
+      const { coordinates } = geometry;
+      if (
+        !Array.isArray(coordinates) ||
+        coordinates.length < 2 ||
+        !coordinates.slice(0, 2).every(value => typeof value === 'number' && Number.isFinite(value))
+      ) {
+        problems.push(`features[${index}].geometry.coordinates must be a [x, y] pair of numbers`);
+        return;
+      }
+      nodes.push({ ...properties, id, ...fromPosition([coordinates[0], coordinates[1]], georeference) });
+    } else if (type === 'LineString') {
+      edges.push({ ...properties, id });
+    } else {
+      problems.push(`features[${index}] must be a Point or LineString, got ${JSON.stringify(type ?? null)}`);
+    }
+  });
+  if (problems.length > 0) throw new GraphLoadError(problems, source);
+
+  return loadGraph({ schemaVersion: collection.schemaVersion ?? GRAPH_SCHEMA_VERSION, nodes, edges }, source);
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const unescapeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+
+/** Position keys: lon/lat when georeferenced, graph units otherwise. */
+const positionKeys = (georeference: AffineTransform | null | undefined) =>
+  georeference ? ['lon', 'lat'] : ['x', 'y'];
+
+/**
+ * GraphML with one `<data>` key per attribute, named after the `Node` and
+ * `Edge` fields. yEd shows them as custom properties; it lays the graph out
+ * itself, since GraphML has no standard position attributes.
+ */
+export function toGraphML(data: GraphData, options: GraphFormatOptions = {}): string {
+  const { georeference } = options;
+  const [xKey, yKey] = positionKeys(georeference);
+  // Key ids must be unique, and nodes and edges both have no_stairs
+  const keyId = (domain: 'graph' | 'node' | 'edge', name: string) => `${domain[0]}_${name}`;
+  const key = (domain: 'graph' | 'node' | 'edge', name: string, type: AttributeType) =>
+    `  <key id="${keyId(domain, name)}" for="${domain}" attr.name="${name}" attr.type="${type}"/>`;
+  const dataLine = (domain: 'node' | 'edge', name: string, value: unknown) =>
+    `      <data key="${keyId(domain, name)}">${escapeXml(String(value))}</data>`;
+  const attributeLines = (domain: 'node' | 'edge', record: object, attributes: Record<string, AttributeType>) =>
+    Object.entries(attributesOf(record, attributes)).map(([name, value]) => dataLine(domain, name, value));
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    key('graph', 'schemaVersion', 'int'),
+    key('node', xKey, 'double'),
+    key('node', yKey, 'double'),
+    ...Object.entries(NODE_ATTRIBUTES).map(([name, type]) => key('node', name, type)),
+    ...Object.entries(EDGE_ATTRIBUTES).map(([name, type]) => key('edge', name, type)),
+    '  <graph id="G" edgedefault="undirected">',
+    `    <data key="${keyId('graph', 'schemaVersion')}">${GRAPH_SCHEMA_VERSION}</data>`,
+  ];
+  data.nodes.forEach(node => {
+    const [x, y] = toPosition(node, georeference);
+    lines.push(
+      `    <node id="${escapeXml(node.id)}">`,
+      dataLine('node', xKey, x),
+      dataLine('node', yKey, y),
+      ...attributeLines('node', node, NODE_ATTRIBUTES),
+      '    </node>'
+    );
+  });
+  data.edges.forEach(edge => {
+    lines.push(
+      `    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.sourceId)}" target="${escapeXml(edge.targetId)}">`,
+      ...attributeLines('edge', edge, EDGE_ATTRIBUTES),
+      '    </edge>'
+    );
+  });
+  lines.push('  </graph>', '</graphml>', '');
+  return lines.join('\n');
+}
+
+const ATTRIBUTE_PATTERN = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function xmlAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(ATTRIBUTE_PATTERN)) attributes[match[1]] = unescapeXml(match[2] ?? match[3]);
+  return attributes;
+}
+
+function parseValue(text: string, type: string | undefined): unknown {
+  const value = unescapeXml(text.trim());
+  switch (type) {
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    case 'int':
+    case 'long':
+    case 'float':
+    case 'double':
+      return value === '' || Number.isNaN(Number(value)) ? value : Number(value);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Reads GraphML written by `toGraphML` or saved from yEd. Attributes are
+ * matched by their key's `attr.name`, so renamed key ids (yEd uses d0, d1,
+ * ...) are fine; keys the graph model does not have, such as yEd's
+ * graphics, are ignored. Only plain GraphML is understood: no nested graphs
+ * or hyperedges.
+ */
+export function fromGraphML(xml: string, options: GraphFormatOptions = {}, source?: string): GraphData {
+  if (!/<graphml[\s>]/.test(xml)) throw new GraphLoadError(['file is not GraphML'], source);
+
+  // Key id -> attribute name, type and domain ("node", "edge", "graph" or "all")
+  const keys = new Map<string, { name: string; type?: string; domain: string }>();
+  for (const match of xml.matchAll(/<key\b([^>]*?)\/?>/g)) {
+    const { id, for: domain = 'all', 'attr.name': name, 'attr.type': type } = xmlAttributes(match[1]);
+    if (id && name) keys.set(id, { name, type, domain });
+  }
+
+  const readData = (body: string, domain: string) => {
+    const values: Record<string, unknown> = {};
+    for (const match of body.matchAll(/<data\b([^>]*?)(?:\/>|>([\s\S]*?)<\/data>)/g)) {
+      const key = keys.get(xmlAttributes(match[1]).key);
+      if (key && (key.domain === domain || key.domain === 'all')) {
+        values[key.name] = parseValue(match[2] ?? '', key.type);
+      }
+    }
+    return values;
+  };
+
+  const versionKey = [...keys].find(([, key]) => key.name === 'schemaVersion' && key.domain === 'graph')?.[0];
+  const version = [...xml.matchAll(/<data\b([^>]*?)>([^<]*)<\/data>/g)].find(
+    match => versionKey !== undefined && xmlAttributes(match[1]).key === versionKey
+  )?.[2];
+  const hasLonLat = [...keys.values()].some(key => key.name === 'lon' && key.domain === 'node');
+  if (hasLonLat && !options.georeference) {
+    throw new GraphLoadError(['coordinates are lon/lat, but the map is not georeferenced'], source);
+  }
+  const georeference = hasLonLat ? options.georeference : null;
+  const [xKey, yKey] = positionKeys(georeference);
+
+  const nodes: Record<string, unknown>[] = [];
+  for (const match of xml.matchAll(/<node\b([^>]*?)(?:\/>|>([\s\S]*?)<\/node>)/g)) {
+    const { [xKey]: x, [yKey]: y, ...attributes } = readData(match[2] ?? '', 'node');
+    const position = typeof x === 'number' && typeof y === 'number' ? fromPosition([x, y], georeference) : { x, y };
+    nodes.push({ ...attributes, id: xmlAttributes(match[1]).id, ...position });
+  }
+  const edges: Record<string, unknown>[] = [];
+  for (const match of xml.matchAll(/<edge\b([^>]*?)(?:\/>|>([\s\S]*?)<\/edge>)/g)) {
+    const { id, source: sourceId, target: targetId } = xmlAttributes(match[1]);
+    edges.push({ ...readData(match[2] ?? '', 'edge'), id, sourceId, targetId });
+  }
+
+  return loadGraph({ schemaVersion: version ? Number(version) : GRAPH_SCHEMA_VERSION, nodes, edges }, source);
+}
@@ -0,0 +1,167 @@
+import { Edge, GraphData, Node, NodeKind, VerticalConnector } from '@/types/graph';
+import { inferNodeKind, NODE_KINDS } from '@/utils/node-kinds';
+
+/**
+ * Version of the graph file format written by this app.
+ *
+ * 1. Original files: no `schemaVersion`, an `elevator` flag and a
+ *    `different_floor` flag on nodes.
+ * 2. Nodes gain `floor`, edges gain `vertical`; `different_floor` is dropped.
+ * 3. Nodes gain `kind`, which replaces the `elevator` flag.
+ */
+export const GRAPH_SCHEMA_VERSION = 3;
+
+/** Raised when a graph file cannot be read into `GraphData`; lists every problem found. */
+export class GraphLoadError extends Error {
+  constructor(
+    readonly problems: string[],
+    source?: string
+  ) {
+    const shown = problems.slice(0, 5).join('; ');
+    const more = problems.length > 5 ? ` and ${problems.length - 5} more` : '';
+    super(`${source ? `${source}: ` : ''}cannot load graph: ${shown}${more}`);
+    this.name = 'GraphLoadError';
+  }
+}
+
+type RawRecord = Record<string, unknown>;
+type RawGraph = { nodes: RawRecord[]; edges: RawRecord[] };
+
+/** Migrations by the version they upgrade from; each returns the graph in the next version. */
+const MIGRATIONS: Record<number, (graph: RawGraph) => RawGraph> = {
+  // Floors were never recorded in version 1, so every node stays at street level
+  1: graph => ({
+    ...graph,
+    nodes: graph.nodes.map(({ different_floor, ...node }) => node),
+  }),
+  2: graph => ({
+    ...graph,
+    nodes: graph.nodes.map(({ elevator, ...node }) => ({
+      ...node,
+      kind: node.kind ?? inferNodeKind({ name: String(node.name ?? ''), elevator: elevator === true }),
+    })),
+  }),
+};
+
+/** Whether `value` is a plain JSON object (not null or an array). */
+export const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const NODE_KIND_VALUES = new Set<string>(NODE_KINDS.map(option => option.kind));
+const VERTICAL_CONNECTORS = new Set<string>(['elevator', 'lift', 'stairs'] satisfies VerticalConnector[]);
+
+/**
+ * Reads graph file contents (parsed JSON) into `GraphData`, upgrading older
+ * versions of the format first. Throws `GraphLoadError` naming each bad field,
+ * e.g. `nodes[12].kind must be one of ...`. Fields the format does not define
+ * are dropped. `source` (usually the file name) prefixes the error message.
+ */
+export function loadGraph(raw: unknown, source?: string): GraphData {
+  if (!isRecord(raw)) throw new GraphLoadError(['file must contain a JSON object'], source);
+
+  const version = raw.schemaVersion ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new GraphLoadError([`schemaVersion must be a positive whole number, got ${JSON.stringify(version)}`], source);
+  }
+  if (version > GRAPH_SCHEMA_VERSION) {
+    throw new GraphLoadError(
+      [`schemaVersion ${version} is newer than this app supports (${GRAPH_SCHEMA_VERSION}); update the app`],
+      source
+    );
+  }
+
+  const problems: string[] = [];
+  if (!Array.isArray(raw.nodes)) problems.push('"nodes" must be an array');
+  if (!Array.isArray(raw.edges)) problems.push('"edges" must be an array');
+  if (problems.length > 0) throw new GraphLoadError(problems, source);
+
+  const records = (items: unknown[], field: string) =>
+    items.filter((item, index) => {
+      if (!isRecord(item)) problems.push(`${field}[${index}] must be an object`);
+      return isRecord(item);
+    });
+  let graph: RawGraph = {
+    nodes: records(raw.nodes as unknown[], 'nodes'),
+    edges: records(raw.edges as unknown[], 'edges'),
+  };
+  if (problems.length > 0) throw new GraphLoadError(problems, source);
+
+  for (let from = version; from < GRAPH_SCHEMA_VERSION; from++) graph = MIGRATIONS[from](graph);
+
+  const nodes = graph.nodes.map((node, index) => parseNode(node, `nodes[${index}]`, problems));
+  const edges = graph.edges.map((edge, index) => parseEdge(edge, `edges[${index}]`, problems));
+  if (problems.length > 0) throw new GraphLoadError(problems, source);
+  return { nodes, edges };
+}
+
+/** Collects type errors for one record's fields into `problems`. */
+function fieldReader(record: RawRecord, path: string, problems: string[]) {
+  // Returns the value as read; a bad value only matters once `problems` is checked
+  const check = <T>(field: string, valid: (value: unknown) => boolean, expected: string, optional: boolean): T => {
+    const value = record[field];
+    if (value === undefined && optional) return undefined as T;
+    if (value === undefined || value === null) {
+      problems.push(`${path}.${field} is missing`);
+    } else if (!valid(value)) {
+      problems.push(`${path}.${field} must be ${expected}, got ${JSON.stringify(value)}`);
+    }
+    return value as T;
+  };
+  const isString = (value: unknown) => typeof value === 'string' && value.length > 0;
+  const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+  const isBoolean = (value: unknown) => typeof value === 'boolean';
+
+  return {
+    string: (field: string) => check<string>(field, isString, 'a non-empty string', false),
+    number: (field: string) => check<number>(field, isNumber, 'a number', false),
+    boolean: (field: string) => check<boolean>(field, isBoolean, 'true or false', false),
+    optionalBoolean: (field: string) => check<boolean | undefined>(field, isBoolean, 'true or false', true),
+    optionalInteger: (field: string) =>
+      check<number | undefined>(field, value => Number.isInteger(value), 'a whole number', true),
+    oneOf: <T extends string>(field: string, values: Set<string>, optional = false) =>
+      check<T | undefined>(
+        field,
+        value => typeof value === 'string' && values.has(value),
+        `one of ${[...values].join(', ')}`,
+        optional
+      ),
+  };
+}
+
+function parseNode(record: RawRecord, path: string, problems: string[]): Node {
+  const read = fieldReader(record, path, problems);
+  const node: Node = {
+    id: read.string('id'),
+    x: read.number('x'),
+    y: read.number('y'),
+    name: read.string('name'),
+    kind: read.oneOf<NodeKind>('kind', NODE_KIND_VALUES)!,
+    no_stairs: read.boolean('no_stairs'),
+  };
+  const outsideCampus = read.optionalBoolean('outside_campus');
+  const indoor = read.optionalBoolean('indoor');
+  const floor = read.optionalInteger('floor');
+  if (outsideCampus !== undefined) node.outside_campus = outsideCampus;
+  if (indoor !== undefined) node.indoor = indoor;
+  if (floor !== undefined) node.floor = floor;
+  return node;
+}
+
+function parseEdge(record: RawRecord, path: string, problems: string[]): Edge {
+  const read = fieldReader(record, path, problems);
+  const edge: Edge = {
+    id: read.string('id'),
+    sourceId: read.string('sourceId'),
+    targetId: read.string('targetId'),
+    distance: read.number('distance'),
+    no_stairs: read.boolean('no_stairs'),
+  };
+  const vertical = read.oneOf<VerticalConnector>('vertical', VERTICAL_CONNECTORS, true);
+  if (vertical !== undefined) edge.vertical = vertical;
+  return edge;
+}
+
+/** Graph file contents for `data` in the current format, laid out like the files under assets/graphs. */
+export function serializeGraph(data: GraphData): string {
+  return JSON.stringify({ schemaVersion: GRAPH_SCHEMA_VERSION, nodes: data.nodes, edges: data.edges }, null, 2);
+}
@@ -0,0 +1,225 @@
+import { GraphData, Node } from '@/types/graph';
+import { NODE_KINDS } from '@/utils/node-kinds';
+
+export type IssueSeverity = 'error' | 'warning';
+
+export type IssueCode =
+  | 'missing-field'
+  | 'unknown-kind'
+  | 'duplicate-id'
+  | 'dangling-endpoint'
+  | 'self-loop'
+  | 'isolated-node'
+  | 'disconnected-component'
+  | 'distance-mismatch'
+  | 'stair-node-step-free'
+  | 'missing-attribute';
+
+export type ValidationIssue = {
+  severity: IssueSeverity;
+  code: IssueCode;
+  message: string;
+  nodeIds: string[];
+  edgeIds: string[];
+};
+
+export type ValidationOptions = {
+  /** Allowed relative difference between an edge's distance and its endpoints' Euclidean distance. */
+  distanceTolerance?: number;
+  /** Differences up to this many graph units are always allowed; distances are hand-rounded. */
+  distanceSlack?: number;
+};
+
+const DEFAULT_DISTANCE_TOLERANCE = 0.25;
+const DEFAULT_DISTANCE_SLACK = 5;
+
+const REQUIRED_NODE_FIELDS = ['id', 'x', 'y', 'name', 'kind', 'no_stairs'] as const;
+const REQUIRED_EDGE_FIELDS = ['id', 'sourceId', 'targetId', 'distance', 'no_stairs'] as const;
+// Optional in the type, but routing treats a missing value as false; files should say so explicitly
+const EXPECTED_NODE_ATTRIBUTES = ['indoor', 'outside_campus'] as const;
+
+const KNOWN_KINDS = new Set<string>(NODE_KINDS.map(option => option.kind));
+
+const label = (node: Node | undefined, id: string) => (node?.name ? `"${node.name}"` : id);
+
+/**
+ * Integrity checks for a graph file. Errors make the graph unusable or
+ * wrong to route on (missing fields, duplicate ids, edges to nowhere);
+ * warnings point at data that is probably wrong but still loads.
+ */
+export function validateGraph(data: GraphData, options: ValidationOptions = {}): ValidationIssue[] {
+  const tolerance = options.distanceTolerance ?? DEFAULT_DISTANCE_TOLERANCE;
+  const slack = options.distanceSlack ?? DEFAULT_DISTANCE_SLACK;
+  const issues: ValidationIssue[] = [];
+  const report = (
+    severity: IssueSeverity,
+    code: IssueCode,
+    message: string,
+    ids: { nodeIds?: string[]; edgeIds?: string[] } = {}
+  ) => issues.push({ severity, code, message, nodeIds: ids.nodeIds ?? [], edgeIds: ids.edgeIds ?? [] });
+
+  const nodes = Array.isArray(data?.nodes) ? data.nodes : [];
+  const edges = Array.isArray(data?.edges) ? data.edges : [];
+  if (!Array.isArray(data?.nodes)) report('error', 'missing-field', 'Graph has no "nodes" array');
+  if (!Array.isArray(data?.edges)) report('error', 'missing-field', 'Graph has no "edges" array');
+
+  // Fields and ids
+  const nodeById = new Map<string, Node>();
+  nodes.forEach((node, index) => {
+    const missing = REQUIRED_NODE_FIELDS.filter(field => node[field] === undefined || node[field] === null);
+    if (missing.length > 0) {
+      report('error', 'missing-field', `Node ${node.id ?? `#${index}`} is missing ${missing.join(', ')}`, {
+        nodeIds: node.id ? [node.id] : [],
+      });
+    }
+    if (node.kind !== undefined && node.kind !== null && !KNOWN_KINDS.has(node.kind)) {
+      report('error', 'unknown-kind', `Node ${label(node, node.id)} has unknown kind "${node.kind}"`, {
+        nodeIds: [node.id],
+      });
+    }
+    if (nodeById.has(node.id)) {
+      report('error', 'duplicate-id', `Node id ${node.id} is used more than once`, { nodeIds: [node.id] });
+    } else {
+      nodeById.set(node.id, node);
+    }
+
+    const absent = EXPECTED_NODE_ATTRIBUTES.filter(attribute => node[attribute] === undefined);
+    if (absent.length > 0) {
+      report('warning', 'missing-attribute', `Node ${label(node, node.id)} does not set ${absent.join(', ')}`, {
+        nodeIds: [node.id],
+      });
+    }
+  });
+
+  const edgeIds = new Set<string>();
+  edges.forEach((edge, index) => {
+    const missing = REQUIRED_EDGE_FIELDS.filter(field => edge[field] === undefined || edge[field] === null);
+    if (missing.length > 0) {
+      report('error', 'missing-field', `Edge ${edge.id ?? `#${index}`} is missing ${missing.join(', ')}`, {
+        edgeIds: edge.id ? [edge.id] : [],
+      });
+    }
+    if (edgeIds.has(edge.id) || nodeById.has(edge.id)) {
+      report('error', 'duplicate-id', `Edge id ${edge.id} is used more than once`, { edgeIds: [edge.id] });
+    }
+    edgeIds.add(edge.id);
+  });
+
+  // Endpoints and lengths
+  const degree = new Map<string, number>();
+  edges.forEach(edge => {
+    const source = nodeById.get(edge.sourceId);
+    const target = nodeById.get(edge.targetId);
+    const dangling = [edge.sourceId, edge.targetId].filter(id => !nodeById.has(id));
+    if (dangling.length > 0) {
+      report('error', 'dangling-endpoint', `Edge ${edge.id} points at unknown node ${dangling.join(' and ')}`, {
+        edgeIds: [edge.id],
+      });
+      return;
+    }
+    if (edge.sourceId === edge.targetId) {
+      report('error', 'self-loop', `Edge ${edge.id} connects ${label(source, edge.sourceId)} to itself`, {
+        nodeIds: [edge.sourceId],
+        edgeIds: [edge.id],
+      });
+      return;
+    }
+    degree.set(edge.sourceId, (degree.get(edge.sourceId) ?? 0) + 1);
+    degree.set(edge.targetId, (degree.get(edge.targetId) ?? 0) + 1);
+
+    const between = `${label(source, edge.sourceId)} and ${label(target, edge.targetId)}`;
+    const ids = { nodeIds: [edge.sourceId, edge.targetId], edgeIds: [edge.id] };
+    if (!Number.isFinite(edge.distance) || edge.distance < 0) {
+      report('error', 'distance-mismatch', `Edge between ${between} has invalid distance ${edge.distance}`, ids);
+    } else if (!edge.vertical && source && target) {
+      // Vertical edges join nodes drawn at the same spot on different floors
+      const euclidean = Math.hypot(source.x - target.x, source.y - target.y);
+      const difference = Math.abs(edge.distance - euclidean);
+      if (difference > slack && difference > tolerance * euclidean) {
+        report(
+          'warning',
+          'distance-mismatch',
+          `Edge between ${between} has distance ${edge.distance}, but its endpoints are ${Math.round(euclidean)} apart`,
+          ids
+        );
+      }
+    }
+
+    [source, target].forEach(node => {
+      if (node && node.kind === 'stairs' && edge.no_stairs === true && !edge.vertical) {
+        report(
+          'warning',
+          'stair-node-step-free',
+          `${label(node, node.id)} is a stairs node, but its edge to ${label(
+            node === source ? target : source,
+            node === source ? edge.targetId : edge.sourceId
+          )} is marked no_stairs`,
+          ids
+        );
+      }
+    });
+  });
+
+  // Connectivity
+  const isolated = [...nodeById.keys()].filter(id => !degree.has(id));
+  isolated.forEach(id => {
+    report('warning', 'isolated-node', `Node ${label(nodeById.get(id), id)} has no edges`, { nodeIds: [id] });
+  });
+
+  const components = connectedComponents(
+    [...nodeById.keys()].filter(id => degree.has(id)),
+    edges.filter(edge => nodeById.has(edge.sourceId) && nodeById.has(edge.targetId))
+  );
+  if (components.length > 1) {
+    // The largest component is the campus; list the others
+    const [, ...others] = [...components].sort((a, b) => b.length - a.length);
+    others.forEach(component => {
+      const names = component.slice(0, 3).map(id => label(nodeById.get(id), id));
+      const more = component.length > 3 ? ` and ${component.length - 3} more` : '';
+      report(
+        'warning',
+        'disconnected-component',
+        `${component.length} nodes are cut off from the rest of the graph: ${names.join(', ')}${more}`,
+        { nodeIds: component }
+      );
+    });
+  }
+
+  return issues;
+}
+
+/** Groups `nodeIds` by connectivity over `edges`. */
+function connectedComponents(nodeIds: string[], edges: GraphData['edges']): string[][] {
+  const neighbors = new Map<string, string[]>(nodeIds.map(id => [id, []]));
+  edges.forEach(edge => {
+    neighbors.get(edge.sourceId)?.push(edge.targetId);
+    neighbors.get(edge.targetId)?.push(edge.sourceId);
+  });
+
+  const seen = new Set<string>();
+  const components: string[][] = [];
+  nodeIds.forEach(start => {
+    if (seen.has(start)) return;
+    const component: string[] = [];
+    const stack = [start];
+    seen.add(start);
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      component.push(id);
+      neighbors.get(id)?.forEach(next => {
+        if (!seen.has(next)) {
+          seen.add(next);
+          stack.push(next);
+        }
+      });
+    }
+    components.push(component);
+  });
+  return components;
+}
+
+export const hasErrors = (issues: ValidationIssue[]) => issues.some(issue => issue.severity === 'error');
+
+/** e.g. "error   dangling-endpoint  Edge e1 points at unknown node n9" */
+export const formatIssue = (issue: ValidationIssue) =>
+  `${issue.severity.padEnd(8)}${issue.code.padEnd(24)}${issue.message}`;
@@ -0,0 +1,55 @@
+import { Instruction, InstructionAction } from '@/utils/instructions';
+
+/** Navigation events that can be felt as well as seen. */
+export type HapticCue = 'turnComing' | 'turnNow' | 'elevatorAhead' | 'routeWarning' | 'arrived';
+
+/** Vibration patterns; see utils/haptics.ts for how each one is played. */
+export type HapticPattern = 'off' | 'tap' | 'double-tap' | 'long' | 'success' | 'warning';
+
+export const HAPTIC_CUES: { cue: HapticCue; label: string }[] = [
+  { cue: 'turnComing', label: 'Turn coming' },
+  { cue: 'turnNow', label: 'Turn now' },
+  { cue: 'elevatorAhead', label: 'Elevator ahead' },
+  { cue: 'routeWarning', label: 'Reported obstacle' },
+  { cue: 'arrived', label: 'Arrived' },
+];
+
+export const HAPTIC_PATTERNS: { value: HapticPattern; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'tap', label: 'Tap' },
+  { value: 'double-tap', label: 'Double tap' },
+  { value: 'long', label: 'Long buzz' },
+  { value: 'success', label: 'Success' },
+  { value: 'warning', label: 'Warning' },
+];
+
+/** Distinct by default, so each cue can be told apart without looking. */
+export const DEFAULT_HAPTIC_PATTERNS: Record<HapticCue, HapticPattern> = {
+  turnComing: 'tap',
+  turnNow: 'double-tap',
+  elevatorAhead: 'long',
+  routeWarning: 'warning',
+  arrived: 'success',
+};
+
+/** "Turn coming" fires this far (meters) before a turn, "elevator ahead" this far before an elevator. */
+export const TURN_COMING_METERS = 30;
+/** "Turn now" fires this close (meters) to a turn. */
+export const TURN_NOW_METERS = 8;
+
+const TURN_ACTIONS = new Set<InstructionAction>([
+  'slight-left',
+  'slight-right',
+  'turn-left',
+  'turn-right',
+  'sharp-left',
+  'sharp-right',
+]);
+
+/** Cue for being `meters` from the node where `instruction`'s action happens; null when none applies. */
+export function approachCue(instruction: Instruction, meters: number): HapticCue | null {
+  if (instruction.action === 'take-elevator') return meters <= TURN_COMING_METERS ? 'elevatorAhead' : null;
+  if (!TURN_ACTIONS.has(instruction.action)) return null;
+  if (meters <= TURN_NOW_METERS) return 'turnNow';
+  return meters <= TURN_COMING_METERS ? 'turnComing' : null;
+}
@@ -0,0 +1,26 @@
+import { HapticPattern } from '@/utils/haptic-cues';
+import * as Haptics from 'expo-haptics';
+
+const pause = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const impact = (style: Haptics.ImpactFeedbackStyle, count: number, gap: number) => async () => {
+  for (let i = 0; i < count; i++) {
+    if (i > 0) await pause(gap);
+    await Haptics.impactAsync(style);
+  }
+};
+
+const PATTERNS: Record<Exclude<HapticPattern, 'off'>, () => Promise<void>> = {
+  tap: impact(Haptics.ImpactFeedbackStyle.Light, 1, 0),
+  'double-tap': impact(Haptics.ImpactFeedbackStyle.Medium, 2, 150),
+  long: impact(Haptics.ImpactFeedbackStyle.Heavy, 3, 100),
+  success: () => Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success),
+  warning: () => Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning),
+};
+
+/** Plays `pattern` without waiting for it; see haptics.web.ts for web. */
+export function playHapticPattern(pattern: HapticPattern) {
+  if (pattern === 'off') return;
+  // Devices without a vibration motor reject; a missed cue is not worth surfacing
+  PATTERNS[pattern]().catch(() => {});
+}
@@ -0,0 +1,4 @@
+import { HapticPattern } from '@/utils/haptic-cues';
+
+/** Browsers have no reliable haptics, so cues are silently skipped on web. */
+export function playHapticPattern(_pattern: HapticPattern) {}
@@ -0,0 +1,24 @@
+import { Image } from 'react-native';
+
+/** Natural size of a bundled image, or 1000x1000 when it cannot be resolved. */
+export function resolveImageSize(source: any): { width: number; height: number } {
+  let width = 1000;
+  let height = 1000;
+
+  try {
+    // Try standard resolveAssetSource
+    const resolved = Image.resolveAssetSource?.(source);
+    if (resolved) {
+      width = resolved.width;
+      height = resolved.height;
+    } else if (typeof source === 'object' && source !== null) {
+      // Fallback for web/bundlers where require returns object with dimensions
+      if (source.width) width = source.width;
+      if (source.height) height = source.height;
+    }
+  } catch (e) {
+    console.log('Error resolving image source:', e);
+  }
+
+  return { width, height };
+}
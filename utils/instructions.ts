@@ -0,0 +1,159 @@
+import { Node } from '@/types/graph';
+import { isMapLinkEdge } from '@/utils/campuses';
+import { describeFloorChange } from '@/utils/floors';
+import { isElevatorNode } from '@/utils/node-kinds';
+import { RouteResult, RouteSegment } from '@/utils/routing';
+
+export type InstructionAction =
+  | 'depart'
+  | 'continue'
+  | 'slight-left'
+  | 'slight-right'
+  | 'turn-left'
+  | 'turn-right'
+  | 'sharp-left'
+  | 'sharp-right'
+  | 'enter-building'
+  | 'exit-building'
+  | 'take-elevator'
+  | 'take-stairs'
+  | 'enter-campus'
+  | 'exit-campus'
+  | 'arrive';
+
+/** One step of turn-by-turn directions. */
+export type Instruction = {
+  action: InstructionAction;
+  text: string;
+  /** Route node where the step's action happens (index into `route.nodes`). */
+  startIndex: number;
+  /** Route node the step leads to; equal to `startIndex` for `arrive`. */
+  endIndex: number;
+  /** Distance covered by the step, in graph units. */
+  distance: number;
+};
+
+// Heading changes below this (degrees) count as going straight and merge into the current step
+const STRAIGHT_THRESHOLD = 25;
+const SLIGHT_THRESHOLD = 55;
+const SHARP_THRESHOLD = 135;
+
+/**
+ * Signed heading change at `via`, in degrees. Positive is a right turn on
+ * screen (graph y grows downward). Null when either leg has no length.
+ */
+function turnAngle(from: Node, via: Node, to: Node): number | null {
+  const ax = via.x - from.x;
+  const ay = via.y - from.y;
+  const bx = to.x - via.x;
+  const by = to.y - via.y;
+  if ((ax === 0 && ay === 0) || (bx === 0 && by === 0)) return null;
+  return (Math.atan2(ax * by - ay * bx, ax * bx + ay * by) * 180) / Math.PI;
+}
+
+function turnAction(angle: number | null): InstructionAction {
+  if (angle === null) return 'continue';
+  const size = Math.abs(angle);
+  if (size < STRAIGHT_THRESHOLD) return 'continue';
+  if (size < SLIGHT_THRESHOLD) return angle > 0 ? 'slight-right' : 'slight-left';
+  if (size < SHARP_THRESHOLD) return angle > 0 ? 'turn-right' : 'turn-left';
+  return angle > 0 ? 'sharp-right' : 'sharp-left';
+}
+
+/** "Mudd - Elevator" -> "Mudd"; names without a " - " suffix are used as is. */
+const buildingName = (node: Node) => node.name.split(' - ')[0];
+
+/** Action taken at the start of `segment`, given the segment before it. */
+function segmentAction(previous: RouteSegment | undefined, segment: RouteSegment): InstructionAction {
+  if (!previous) return 'depart';
+
+  const { from, to } = segment;
+  if (segment.floorChange) {
+    return segment.floorChange.connector === 'stairs' ? 'take-stairs' : 'take-elevator';
+  }
+  // Elevator nodes without vertical edges; after a ride the elevator was already announced
+  if (isElevatorNode(from) && !previous.floorChange) return 'take-elevator';
+  if (segment.crossesCampusBoundary) return to.outside_campus ? 'exit-campus' : 'enter-campus';
+  if (from.indoor !== true && to.indoor === true) return 'enter-building';
+  if (from.indoor === true && to.indoor !== true) return 'exit-building';
+  // Headings are meaningless across a floor change; start a fresh step after one
+  if (previous.floorChange) return 'depart';
+  // Coordinates on either side of a map link belong to different maps, so no turn can be read across one
+  if (isMapLinkEdge(segment.edge) || isMapLinkEdge(previous.edge)) return 'continue';
+
+  return turnAction(turnAngle(previous.from, from, to));
+}
+
+function instructionText(action: InstructionAction, first: RouteSegment, target: Node): string {
+  const toward = `toward ${target.name}`;
+  switch (action) {
+    case 'depart':
+      return `Head ${toward}`;
+    case 'continue':
+      return `Continue ${toward}`;
+    case 'slight-left':
+      return `Slight left ${toward}`;
+    case 'slight-right':
+      return `Slight right ${toward}`;
+    case 'turn-left':
+      return `Turn left ${toward}`;
+    case 'turn-right':
+      return `Turn right ${toward}`;
+    case 'sharp-left':
+      return `Sharp left ${toward}`;
+    case 'sharp-right':
+      return `Sharp right ${toward}`;
+    case 'enter-building':
+      return `Enter ${buildingName(first.to)}`;
+    case 'exit-building':
+      return `Exit ${buildingName(first.from)}`;
+    case 'take-elevator':
+    case 'take-stairs':
+      return first.floorChange ? describeFloorChange(first.floorChange) : `Take ${first.from.name}`;
+    case 'enter-campus':
+      return `Enter campus through ${first.from.name}`;
+    case 'exit-campus':
+      return `Exit campus through ${first.to.name}`;
+    case 'arrive':
+      return `Arrive at ${target.name}`;
+  }
+}
+
+/**
+ * Turn-by-turn directions for `route`. Consecutive segments that continue
+ * roughly straight are merged into one step; turns, building and campus
+ * transitions and floor changes each start a new step. The last step is
+ * always `arrive`.
+ */
+export function buildInstructions(route: RouteResult): Instruction[] {
+  const { nodes, segments } = route;
+  if (segments.length === 0) return [];
+
+  const steps: { action: InstructionAction; startIndex: number; endIndex: number; distance: number }[] = [];
+  segments.forEach((segment, i) => {
+    const action = segmentAction(segments[i - 1], segment);
+    const current = steps[steps.length - 1];
+    if (current && action === 'continue') {
+      current.endIndex = i + 1;
+      current.distance += segment.cost.base;
+    } else {
+      steps.push({ action, startIndex: i, endIndex: i + 1, distance: segment.cost.base });
+    }
+  });
+
+  const instructions: Instruction[] = steps.map(step => ({
+    ...step,
+    text: instructionText(step.action, segments[step.startIndex], nodes[step.endIndex]),
+  }));
+
+  const last = nodes.length - 1;
+  instructions.push({
+    action: 'arrive',
+    text: instructionText('arrive', segments[segments.length - 1], nodes[last]),
+    startIndex: last,
+    endIndex: last,
+    distance: 0,
+  });
+
+  return instructions;
+}
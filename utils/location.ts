@@ -0,0 +1,97 @@
+import { LonLat } from '@/utils/geo';
+import * as Location from 'expo-location';
+
+/** One position reading. */
+export type LocationFix = LonLat & {
+  /** Radius of 68% confidence in meters. */
+  accuracy: number;
+  /** Degrees clockwise from true north, when moving. */
+  heading: number | null;
+  /** Milliseconds since the epoch. */
+  timestamp: number;
+};
+
+/** A fix to replay; the replay stamps it with the time it is delivered. */
+export type ReplayFix = Omit<LocationFix, 'timestamp'>;
+
+/**
+ * Source of position fixes. `watch` starts delivering fixes and returns a
+ * function that stops them; errors (such as a denied permission) go to
+ * `onError` and end the watch.
+ */
+export interface LocationProvider {
+  watch(onFix: (fix: LocationFix) => void, onError?: (error: Error) => void): () => void;
+}
+
+/** The device's GPS and network positioning, through expo-location. */
+export function createDeviceLocationProvider(): LocationProvider {
+  return {
+    watch(onFix, onError) {
+      let stopped = false;
+      let subscription: Location.LocationSubscription | null = null;
+
+      (async () => {
+        const { status } = await Location.requestForegroundPermissionsAsync();
+        if (status !== 'granted') throw new Error('Location permission was not granted');
+        const watcher = await Location.watchPositionAsync(
+          { accuracy: Location.Accuracy.BestForNavigation, distanceInterval: 1 },
+          ({ coords, timestamp }) =>
+            onFix({
+              lon: coords.longitude,
+              lat: coords.latitude,
+              accuracy: coords.accuracy ?? 0,
+              heading: coords.heading !== null && coords.heading >= 0 ? coords.heading : null,
+              timestamp,
+            })
+        );
+        // Stopped while waiting for permission or the first fix
+        if (stopped) watcher.remove();
+        else subscription = watcher;
+      })().catch(error => {
+        if (!stopped) onError?.(error instanceof Error ? error : new Error(String(error)));
+      });
+
+      return () => {
+        stopped = true;
+        subscription?.remove();
+      };
+    },
+  };
+}
+
+export type ReplayOptions = {
+  /** Delay between fixes; defaults to one second. */
+  intervalMs?: number;
+  /** Start over after the last fix instead of stopping. */
+  loop?: boolean;
+};
+
+/**
+ * Plays back a fixed list of fixes, for testing without walking around.
+ * Each fix is delivered with the current time as its timestamp. Throws if
+ * `intervalMs` is not positive.
+ */
+export function createReplayLocationProvider(
+  fixes: ReplayFix[],
+  { intervalMs = 1000, loop = false }: ReplayOptions = {}
+): LocationProvider {
+  if (!(intervalMs > 0)) throw new Error(`Replay interval must be positive, got ${intervalMs} ms`);
+  return {
+    watch(onFix) {
+      let index = 0;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const next = () => {
+        if (index >= fixes.length) {
+          if (!loop || fixes.length === 0) return;
+          index = 0;
+        }
+        onFix({ ...fixes[index++], timestamp: Date.now() });
+        timer = setTimeout(next, intervalMs);
+      };
+      next();
+      return () => {
+        if (timer !== null) clearTimeout(timer);
+      };
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { AffineTransform, applyAffine, invertAffine } from '@/utils/affine';
+
+export type Point = { x: number; y: number };
+
+export type Rect = Point & { width: number; height: number };
+
+/** Where an image of `imageWidth` x `imageHeight` is drawn inside a box with `resizeMode="contain"`. */
+export function containRect(boxWidth: number, boxHeight: number, imageWidth: number, imageHeight: number): Rect {
+  const boxAspect = boxWidth / boxHeight;
+  const imageAspect = imageWidth / imageHeight;
+
+  if (boxAspect > imageAspect) {
+    const width = boxHeight * imageAspect;
+    return { x: (boxWidth - width) / 2, y: 0, width, height: boxHeight };
+  }
+
+  const height = boxWidth / imageAspect;
+  return { x: 0, y: (boxHeight - height) / 2, width: boxWidth, height };
+}
+
+/** Closest point to `point` on the segment `a`-`b`; `t` runs from 0 at `a` to 1 at `b`. */
+export function projectOntoSegment(point: Point, a: Point, b: Point): { point: Point; t: number; distance: number } {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+  const projected = { x: a.x + t * dx, y: a.y + t * dy };
+  return { point: projected, t, distance: Math.hypot(point.x - projected.x, point.y - projected.y) };
+}
+
+/** Graph coordinates of a point given as a fraction (0-1) of the map image size. */
+export function imageFractionToGraph(point: Point, transform: AffineTransform): Point {
+  return applyAffine(invertAffine(transform), point);
+}
+
+/** Inverse of `imageFractionToGraph`. */
+export function graphToImageFraction(point: Point, transform: AffineTransform): Point {
+  return applyAffine(transform, point);
+}
@@ -0,0 +1,133 @@
+export type MobilityProfileId = 'standard' | 'caneCrutches' | 'wheelchair' | 'custom';
+
+/**
+ * How a profile treats stairs (`usesStairs` in `utils/floors.ts`).
+ * - `allow`: no extra cost
+ * - `penalize`: usable, but charged `stairPenalty` per unit distance
+ * - `avoid`: never used
+ */
+export type StairHandling = 'allow' | 'penalize' | 'avoid';
+
+/**
+ * Routing cost model for one kind of traveller. All per-distance values are
+ * relative to the edge's `distance`, so they apply to any map scale.
+ */
+export interface MobilityProfile {
+  id: MobilityProfileId;
+  label: string;
+  /** Multiplies every edge distance (relative effort per unit travelled). */
+  distanceMultiplier: number;
+  stairs: StairHandling;
+  /** Extra cost per unit distance on stair edges when `stairs === 'penalize'`. */
+  stairPenalty: number;
+  /**
+   * Cost per unit distance added on edges that touch a ramp node.
+   * Negative values favour ramps, positive values avoid them.
+   */
+  rampPreference: number;
+  /** Distance that can be covered before a rest stop is needed; 0 means no limit. */
+  restInterval: number;
+  /** Cost per unit distance of a single edge beyond `restInterval`. */
+  restPenalty: number;
+  /** Walking or rolling speed in meters per second, for travel-time estimates. */
+  speed: number;
+  /** Seconds allowed for waiting on and riding each elevator or lift. */
+  elevatorWait: number;
+  /** How the traveller moves, completing "about 4 min ___" (e.g. "by wheelchair"). */
+  travelMode: string;
+}
+
+export const MOBILITY_PROFILES: Record<Exclude<MobilityProfileId, 'custom'>, MobilityProfile> = {
+  standard: {
+    id: 'standard',
+    label: 'Standard Mobility',
+    distanceMultiplier: 1,
+    stairs: 'allow',
+    stairPenalty: 0,
+    rampPreference: 0,
+    restInterval: 0,
+    restPenalty: 0,
+    speed: 1.3,
+    elevatorWait: 30,
+    travelMode: 'walking',
+  },
+  caneCrutches: {
+    id: 'caneCrutches',
+    label: 'Cane/Crutches',
+    distanceMultiplier: 1.3,
+    stairs: 'penalize',
+    stairPenalty: 1.5,
+    rampPreference: -0.2,
+    restInterval: 300,
+    restPenalty: 0.5,
+    speed: 0.8,
+    elevatorWait: 45,
+    travelMode: 'with cane or crutches',
+  },
+  wheelchair: {
+    id: 'wheelchair',
+    label: 'Wheelchair User',
+    distanceMultiplier: 1,
+    stairs: 'avoid',
+    stairPenalty: 0,
+    rampPreference: -0.3,
+    restInterval: 600,
+    restPenalty: 0.25,
+    speed: 1.0,
+    elevatorWait: 60,
+    travelMode: 'by wheelchair',
+  },
+};
+
+/** Starting point for the user-tunable profile. */
+export const DEFAULT_CUSTOM_PROFILE: MobilityProfile = {
+  ...MOBILITY_PROFILES.standard,
+  id: 'custom',
+  label: 'Custom',
+  travelMode: 'at your pace',
+};
+
+/** Limits for user-tuned values; keep edge costs positive and finite. */
+export const CUSTOM_PROFILE_LIMITS = {
+  distanceMultiplier: { min: 0.5, max: 3, step: 0.1 },
+  stairPenalty: { min: 0, max: 5, step: 0.5 },
+  rampPreference: { min: -0.5, max: 2, step: 0.1 },
+  restInterval: { min: 0, max: 2000, step: 50 },
+  restPenalty: { min: 0, max: 2, step: 0.25 },
+  speed: { min: 0.3, max: 2, step: 0.1 },
+  elevatorWait: { min: 0, max: 180, step: 15 },
+} as const;
+
+export type TunableProfileField = keyof typeof CUSTOM_PROFILE_LIMITS;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Returns `profile` with every tunable field clamped to `CUSTOM_PROFILE_LIMITS`. */
+export function sanitizeProfile(profile: MobilityProfile): MobilityProfile {
+  const next = { ...profile };
+  (Object.keys(CUSTOM_PROFILE_LIMITS) as TunableProfileField[]).forEach(field => {
+    const { min, max } = CUSTOM_PROFILE_LIMITS[field];
+    const value = Number.isFinite(next[field]) ? next[field] : DEFAULT_CUSTOM_PROFILE[field];
+    next[field] = clamp(value, min, max);
+  });
+  return next;
+}
+
+/** Speeds the user set for individual profiles, in meters per second; profiles without one keep their own. */
+export type SpeedOverrides = Partial<Record<MobilityProfileId, number>>;
+
+/**
+ * The profile `id`, with its speed replaced by the one in `speedOverrides`
+ * (clamped to `CUSTOM_PROFILE_LIMITS.speed`) when set.
+ */
+export function getMobilityProfile(
+  id: MobilityProfileId,
+  customProfile: MobilityProfile,
+  speedOverrides: SpeedOverrides = {}
+): MobilityProfile {
+  const profile = id === 'custom' ? sanitizeProfile(customProfile) : MOBILITY_PROFILES[id];
+  const speed = speedOverrides[id];
+  if (speed === undefined || !Number.isFinite(speed)) return profile;
+  const { min, max } = CUSTOM_PROFILE_LIMITS.speed;
+  return { ...profile, speed: clamp(speed, min, max) };
+}
@@ -0,0 +1,171 @@
+import { Node } from '@/types/graph';
+import { isElevatorNode } from '@/utils/node-kinds';
+import {
+  RouteGraph,
+  RoutePreferences,
+  RouteQueryOptions,
+  RouteResult,
+  RouteSummary,
+} from '@/utils/routing';
+
+/** Waypoints (stops between start and destination) that order optimization will handle. */
+export const MAX_OPTIMIZED_WAYPOINTS = 8;
+
+export type MultiStopOptions = RouteQueryOptions & {
+  /**
+   * Reorder the waypoints between the first and last stop to minimize total
+   * cost. Start and destination stay fixed.
+   */
+  optimizeOrder?: boolean;
+};
+
+export type MultiStopRoute = {
+  /** Stops in visiting order, start first and destination last. */
+  stops: Node[];
+  /** `order[i]` is the index in the requested stop list of `stops[i]`. */
+  order: number[];
+  /** One route per consecutive pair of stops. */
+  legs: RouteResult[];
+  /** All legs joined into one route. */
+  route: RouteResult;
+  /** True when optimization visits the waypoints in a different order than requested. */
+  reordered: boolean;
+};
+
+/**
+ * Route through `stopIds` in order, or in the cheapest order when
+ * `optimizeOrder` is set. Returns null for fewer than two stops or when any
+ * leg is unreachable.
+ */
+export function findMultiStopRoute(
+  graph: RouteGraph,
+  stopIds: string[],
+  preferences: RoutePreferences = {},
+  options: MultiStopOptions = {}
+): MultiStopRoute | null {
+  if (stopIds.length < 2) return null;
+
+  const { optimizeOrder, ...queryOptions } = options;
+  const legCache = new Map<string, RouteResult | null>();
+  const leg = (from: number, to: number) => {
+    const key = `${from}>${to}`;
+    if (!legCache.has(key)) {
+      legCache.set(key, graph.findRoute(stopIds[from], stopIds[to], preferences, queryOptions));
+    }
+    return legCache.get(key) ?? null;
+  };
+
+  const requested = stopIds.map((_, index) => index);
+  const waypointCount = stopIds.length - 2;
+  const order =
+    optimizeOrder && waypointCount >= 2 && waypointCount <= MAX_OPTIMIZED_WAYPOINTS
+      ? optimizeStopOrder(stopIds.length, (from, to) => leg(from, to)?.summary.totalCost ?? Infinity)
+      : requested;
+  if (!order) return null;
+
+  const legs: RouteResult[] = [];
+  for (let i = 1; i < order.length; i++) {
+    const result = leg(order[i - 1], order[i]);
+    if (!result) return null;
+    legs.push(result);
+  }
+
+  return {
+    stops: [legs[0].nodes[0], ...legs.map(result => result.nodes[result.nodes.length - 1])],
+    order,
+    legs,
+    route: joinLegs(legs),
+    reordered: order.some((stop, i) => stop !== requested[i]),
+  };
+}
+
+/**
+ * Held-Karp over the waypoints `1 .. count - 2` with stop 0 fixed first and
+ * stop `count - 1` fixed last. Returns null when no order reaches every stop.
+ */
+function optimizeStopOrder(count: number, cost: (from: number, to: number) => number): number[] | null {
+  const last = count - 1;
+  const waypoints = count - 2;
+  const full = (1 << waypoints) - 1;
+  // best[mask][j]: cheapest cost from stop 0 through the waypoints in `mask`, ending at waypoint j
+  const best: Float64Array[] = [];
+  const parent: Int8Array[] = [];
+  for (let mask = 0; mask <= full; mask++) {
+    best.push(new Float64Array(waypoints).fill(Infinity));
+    parent.push(new Int8Array(waypoints).fill(-1));
+  }
+
+  for (let j = 0; j < waypoints; j++) {
+    best[1 << j][j] = cost(0, j + 1);
+  }
+
+  for (let mask = 1; mask <= full; mask++) {
+    for (let j = 0; j < waypoints; j++) {
+      if (!(mask & (1 << j)) || best[mask][j] === Infinity) continue;
+      for (let k = 0; k < waypoints; k++) {
+        if (mask & (1 << k)) continue;
+        const next = mask | (1 << k);
+        const alt = best[mask][j] + cost(j + 1, k + 1);
+        if (alt < best[next][k]) {
+          best[next][k] = alt;
+          parent[next][k] = j;
+        }
+      }
+    }
+  }
+
+  let end = -1;
+  let total = Infinity;
+  for (let j = 0; j < waypoints; j++) {
+    const alt = best[full][j] + cost(j + 1, last);
+    if (alt < total) {
+      total = alt;
+      end = j;
+    }
+  }
+  if (end === -1) return null;
+
+  const order: number[] = [last];
+  for (let mask = full, j = end; j !== -1; ) {
+    order.push(j + 1);
+    const previous = parent[mask][j];
+    mask &= ~(1 << j);
+    j = previous;
+  }
+  order.push(0);
+  return order.reverse();
+}
+
+function joinLegs(legs: RouteResult[]): RouteResult {
+  const nodes = [...legs[0].nodes];
+  legs.slice(1).forEach(result => nodes.push(...result.nodes.slice(1)));
+
+  const summaries = legs.map(result => result.summary);
+  const sum = (pick: (summary: RouteSummary) => number) =>
+    summaries.reduce((total, summary) => total + pick(summary), 0);
+
+  const totalDistance = sum(summary => summary.totalDistance);
+  const outdoorDistance = sum(summary => summary.outdoorDistance);
+
+  return {
+    nodes,
+    edges: legs.flatMap(result => result.edges),
+    segments: legs.flatMap(result => result.segments),
+    summary: {
+      totalDistance,
+      totalCost: sum(summary => summary.totalCost),
+      outdoorPenalty: sum(summary => summary.outdoorPenalty),
+      boundaryPenalty: sum(summary => summary.boundaryPenalty),
+      elevatorDiscount: sum(summary => summary.elevatorDiscount),
+      rampPenalty: sum(summary => summary.rampPenalty),
+      profileAdjustment: sum(summary => summary.profileAdjustment),
+      closurePenalty: sum(summary => summary.closurePenalty),
+      restStops: summaries.flatMap(summary => summary.restStops),
+      elevatorCount: new Set(nodes.filter(isElevatorNode).map(node => node.id)).size,
+      outdoorDistance,
+      outdoorShare: totalDistance > 0 ? outdoorDistance / totalDistance : 0,
+      boundaryCrossings: sum(summary => summary.boundaryCrossings),
+      floorChanges: sum(summary => summary.floorChanges),
+    },
+  };
+}
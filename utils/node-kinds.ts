@@ -0,0 +1,46 @@
+import { Node, NodeKind } from '@/types/graph';
+
+export const NODE_KINDS: { kind: NodeKind; label: string }[] = [
+  { kind: 'path', label: 'Path' },
+  { kind: 'poi', label: 'Place' },
+  { kind: 'entrance', label: 'Entrance' },
+  { kind: 'campus_entrance', label: 'Campus Entrance' },
+  { kind: 'connector', label: 'Building Connection' },
+  { kind: 'ramp', label: 'Ramp' },
+  { kind: 'elevator', label: 'Elevator' },
+  { kind: 'lift', label: 'Lift' },
+  { kind: 'stairs', label: 'Stairs' },
+];
+
+export const nodeKindLabel = (kind: NodeKind) => NODE_KINDS.find(option => option.kind === kind)?.label ?? kind;
+
+/** Elevators and platform lifts: the nodes that carry step-free floor changes. */
+export const isElevatorNode = (node: Node) => node.kind === 'elevator' || node.kind === 'lift';
+
+export const isRampNode = (node: Node) => node.kind === 'ramp';
+
+export const isStairNode = (node: Node) => node.kind === 'stairs';
+
+// Names of outdoor walkways, plazas and street corners
+const PATH_NAME = /walk|plaza|corner|street|turn|&/i;
+
+/**
+ * Best guess at a node's kind from its name and the legacy `elevator` flag.
+ * Only for migrating graph files written before `kind` existed (see
+ * utils/graph-schema.ts); set `kind` explicitly for new nodes. Checks run in the order the old name-based icon
+ * lookup used, so migrated maps look the same.
+ */
+export function inferNodeKind(node: { name: string; elevator?: boolean }): NodeKind {
+  const name = (node.name ?? '').toLowerCase();
+
+  if (node.elevator === true || name.includes('elevator')) {
+    return name.includes('lift') ? 'lift' : 'elevator';
+  }
+  if (name.includes('lift')) return 'lift';
+  if (name.includes('stair')) return 'stairs';
+  if (name.includes('building connection')) return 'connector';
+  if (name.includes('campus entrance')) return 'campus_entrance';
+  if (name.includes('ramp')) return 'ramp';
+  if (name.includes('entrance')) return 'entrance';
+  return PATH_NAME.test(name) ? 'path' : 'poi';
+}
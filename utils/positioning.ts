@@ -0,0 +1,84 @@
+import { GraphData, Node } from '@/types/graph';
+import { AffineTransform } from '@/utils/affine';
+import { CampusMap } from '@/utils/campuses';
+import { EdgeSnap, snapToEdge } from '@/utils/dropped-pins';
+import { bearing, graphToLonLat, lonLatToGraph, LonLat, metersBetween } from '@/utils/geo';
+import { LocationFix, ReplayFix } from '@/utils/location';
+import { Point } from '@/utils/map-coordinates';
+
+/** Fixes are snapped to a path within this many meters, or within their accuracy if that is larger. */
+export const MIN_SNAP_METERS = 15;
+
+/** Where a location fix puts the user on a map. */
+export type UserPosition = {
+  /** Graph position, on the nearest path when one is close enough. */
+  point: Point;
+  /** Graph position of the fix itself. */
+  raw: Point;
+  /** Fix accuracy in graph units. */
+  accuracy: number;
+  /** Path the position was snapped onto; null when none is close enough. */
+  snap: EdgeSnap | null;
+  fix: LocationFix;
+};
+
+/**
+ * Places `fix` on `map` and snaps it onto the nearest edge of `data` (the
+ * map's drawn graph). Null when the map is not georeferenced.
+ */
+export function locateOnMap(fix: LocationFix, map: CampusMap, data: GraphData): UserPosition | null {
+  if (!map.georeference) return null;
+
+  const raw = lonLatToGraph(fix, map.georeference);
+  const accuracy = fix.accuracy / map.metersPerUnit;
+  const snap = snapToEdge(data, raw, Math.max(accuracy, MIN_SNAP_METERS / map.metersPerUnit));
+  return { point: snap?.point ?? raw, raw, accuracy, snap, fix };
+}
+
+/**
+ * Lon/lat of each node that sits on a georeferenced map, e.g. to replay a
+ * route with `fixesAlongPath`. Nodes on other maps are skipped.
+ */
+export function nodesToLonLat(nodes: Node[], georeferenceOf: (node: Node) => AffineTransform | null): LonLat[] {
+  return nodes.flatMap(node => {
+    const georeference = georeferenceOf(node);
+    return georeference ? [graphToLonLat(node, georeference)] : [];
+  });
+}
+
+/**
+ * Fixes for walking `path` at `speed` meters per second, one per `intervalMs`
+ * (one second by default), e.g. to replay a route with
+ * `createReplayLocationProvider`. Throws if `speed` or `intervalMs` is not
+ * positive, since the fixes would never get past the start.
+ */
+export function fixesAlongPath(
+  path: LonLat[],
+  { speed = 1.2, intervalMs = 1000, accuracy = 5 }: { speed?: number; intervalMs?: number; accuracy?: number } = {}
+): ReplayFix[] {
+  if (!(speed > 0)) throw new Error(`Walking speed must be positive, got ${speed} m/s`);
+  if (!(intervalMs > 0)) throw new Error(`Fix interval must be positive, got ${intervalMs} ms`);
+  const step = (speed * intervalMs) / 1000;
+  const fixes: ReplayFix[] = [];
+  // Distance into the current segment of the next fix
+  let along = 0;
+  for (let i = 1; i < path.length; i++) {
+    const from = path[i - 1];
+    const to = path[i];
+    const length = metersBetween(from, to);
+    const heading = bearing(from, to);
+    for (; along < length; along += step) {
+      const t = along / length;
+      fixes.push({
+        lon: from.lon + (to.lon - from.lon) * t,
+        lat: from.lat + (to.lat - from.lat) * t,
+        accuracy,
+        heading,
+      });
+    }
+    along -= length;
+  }
+  const last = path[path.length - 1];
+  if (last) fixes.push({ ...last, accuracy, heading: fixes[fixes.length - 1]?.heading ?? null });
+  return fixes;
+}
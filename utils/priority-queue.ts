@@ -0,0 +1,89 @@
+/**
+ * Binary min-heap of integer values ordered by a numeric priority.
+ *
+ * Values and priorities are kept in parallel arrays so the heap never
+ * allocates per entry. Decrease-key is not supported; callers push a value
+ * again with the lower priority and skip stale entries when popped
+ * (see `RouteGraph` in `utils/routing.ts`).
+ */
+export class MinHeap {
+  private readonly values: number[] = [];
+  private readonly priorities: number[] = [];
+
+  get size(): number {
+    return this.values.length;
+  }
+
+  push(value: number, priority: number): void {
+    this.values.push(value);
+    this.priorities.push(priority);
+    this.siftUp(this.values.length - 1);
+  }
+
+  /** Priority of the smallest entry, or Infinity when empty. */
+  peekPriority(): number {
+    return this.priorities.length > 0 ? this.priorities[0] : Infinity;
+  }
+
+  /** Removes and returns the value with the smallest priority. */
+  pop(): number | undefined {
+    const count = this.values.length;
+    if (count === 0) return undefined;
+
+    const top = this.values[0];
+    const lastValue = this.values.pop()!;
+    const lastPriority = this.priorities.pop()!;
+
+    if (count > 1) {
+      this.values[0] = lastValue;
+      this.priorities[0] = lastPriority;
+      this.siftDown(0);
+    }
+
+    return top;
+  }
+
+  clear(): void {
+    this.values.length = 0;
+    this.priorities.length = 0;
+  }
+
+  private siftUp(index: number): void {
+    const value = this.values[index];
+    const priority = this.priorities[index];
+
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.priorities[parent] <= priority) break;
+      this.values[index] = this.values[parent];
+      this.priorities[index] = this.priorities[parent];
+      index = parent;
+    }
+
+    this.values[index] = value;
+    this.priorities[index] = priority;
+  }
+
+  private siftDown(index: number): void {
+    const count = this.values.length;
+    const value = this.values[index];
+    const priority = this.priorities[index];
+
+    while (true) {
+      const left = index * 2 + 1;
+      if (left >= count) break;
+
+      const right = left + 1;
+      const child =
+        right < count && this.priorities[right] < this.priorities[left] ? right : left;
+      if (this.priorities[child] >= priority) break;
+
+      this.values[index] = this.values[child];
+      this.priorities[index] = this.priorities[child];
+      index = child;
+    }
+
+    this.values[index] = value;
+    this.priorities[index] = priority;
+  }
+}
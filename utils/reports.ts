@@ -0,0 +1,54 @@
+import { db } from '@/config/firebase';
+import { Point } from '@/utils/map-coordinates';
+import { collection, getDocs, orderBy, query } from 'firebase/firestore';
+
+export type ReportTag = 'construction' | 'broken';
+
+export interface Report {
+  id: string;
+  description: string;
+  tags: ReportTag;
+  createdBy: string;
+  createdAt?: string; // ISO timestamp
+  firebaseDocId?: string; // Firestore document ID for updates/deletes
+  // Keep x and y for map display
+  x?: number;
+  y?: number;
+  /**
+   * Position as a fraction (0-1) of the map image, independent of the
+   * screen it was placed on. Used to snap reports onto the graph.
+   */
+  imagePosition?: Point;
+  /** Campus map `imagePosition` refers to; reports from before multiple maps omit it. */
+  mapId?: string;
+}
+
+/** Loads all reports from Firestore, newest first. */
+export async function fetchReports(): Promise<Report[]> {
+  const reportsQuery = query(collection(db, 'reports'), orderBy('createdAt', 'desc'));
+  const querySnapshot = await getDocs(reportsQuery);
+
+  const loadedReports: Report[] = [];
+  querySnapshot.forEach(document => {
+    const data = document.data();
+    const imageX = data.location?.imageX;
+    const imageY = data.location?.imageY;
+    loadedReports.push({
+      id: data.id,
+      description: data.description,
+      tags: data.tags,
+      createdBy: data.createdBy || '',
+      createdAt: data.createdAt,
+      firebaseDocId: document.id, // Store Firestore doc ID
+      x: data.location?.x,
+      y: data.location?.y,
+      imagePosition:
+        typeof imageX === 'number' && typeof imageY === 'number'
+          ? { x: imageX, y: imageY }
+          : undefined,
+      mapId: data.location?.mapId,
+    });
+  });
+
+  return loadedReports;
+}
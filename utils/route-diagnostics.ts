@@ -0,0 +1,189 @@
+import { Edge, Node } from '@/types/graph';
+import { usesStairs } from '@/utils/floors';
+import { MOBILITY_PROFILES } from '@/utils/mobility';
+import { ClosureSet, excludesStairs, RouteGraph, RoutePreferences, RouteResult } from '@/utils/routing';
+
+/** Constraints the user may choose to lift for a single trip. */
+export type Relaxation = {
+  /** Allow stair edges, still using as few as possible. */
+  allowStairs?: boolean;
+  /** Treat closed places as passable, still avoiding them where possible. */
+  ignoreClosures?: boolean;
+};
+
+export type NoRouteReason =
+  | 'unknown-endpoint'
+  /** Endpoints are in different connected components; nothing can be relaxed. */
+  | 'disconnected'
+  | 'stairs'
+  | 'closures'
+  | 'stairs-and-closures'
+  /** A route exists under the given preferences. */
+  | 'reachable';
+
+export type RouteDiagnosis = {
+  reason: NoRouteReason;
+  start?: Node;
+  end?: Node;
+  /** Smallest relaxation that produces a route, or null when none does. */
+  relaxation: Relaxation | null;
+  /** Route under `relaxation`. */
+  relaxedRoute: RouteResult | null;
+  /** Stair edges `relaxedRoute` needs, including steps onto `stairs` nodes. */
+  stairEdges: Edge[];
+  /** Closed nodes and edges `relaxedRoute` passes. */
+  closedNodes: Node[];
+  closedEdges: Edge[];
+};
+
+// Per unit distance; large enough that a relaxed route only uses stairs where it must
+const RELAXED_STAIR_PENALTY = 100;
+// Flat, per closed place; large enough that a relaxed route only passes closures where it must
+const RELAXED_CLOSURE_PENALTY = 100000;
+
+/**
+ * Preferences with the given constraints lifted. Lifted constraints become
+ * steep penalties so the route still avoids stairs or closures where it can.
+ */
+export function relaxPreferences(preferences: RoutePreferences, relaxation: Relaxation): RoutePreferences {
+  let relaxed = preferences;
+
+  if (relaxation.allowStairs && excludesStairs(preferences)) {
+    const profile = preferences.profile ?? MOBILITY_PROFILES.standard;
+    relaxed = {
+      ...relaxed,
+      disallowStairs: false,
+      profile: { ...profile, stairs: 'penalize', stairPenalty: RELAXED_STAIR_PENALTY },
+    };
+  }
+
+  if (relaxation.ignoreClosures && preferences.closures) {
+    relaxed = { ...relaxed, closures: relaxClosures(preferences.closures) };
+  }
+
+  return relaxed;
+}
+
+/** Closed places become penalized; construction keeps at least its own penalty. */
+function relaxClosures(closures: ClosureSet): ClosureSet {
+  return {
+    penalizedNodeIds: new Set([...(closures.closedNodeIds ?? []), ...(closures.penalizedNodeIds ?? [])]),
+    penalizedEdgeIds: new Set([...(closures.closedEdgeIds ?? []), ...(closures.penalizedEdgeIds ?? [])]),
+    penalty: Math.max(closures.penalty ?? 0, RELAXED_CLOSURE_PENALTY),
+  };
+}
+
+/** Union-find over every edge, ignoring preferences. Returns a component root per node id. */
+function connectedComponents(graph: RouteGraph): Map<string, string> {
+  const parent = new Map<string, string>();
+  graph.nodes.forEach(node => parent.set(node.id, node.id));
+
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    // Path compression
+    while (parent.get(id) !== root) {
+      const next = parent.get(id)!;
+      parent.set(id, root);
+      id = next;
+    }
+    return root;
+  };
+
+  graph.edges.forEach(edge => {
+    const a = find(edge.sourceId);
+    const b = find(edge.targetId);
+    if (a !== b) parent.set(a, b);
+  });
+
+  const components = new Map<string, string>();
+  graph.nodes.forEach(node => components.set(node.id, find(node.id)));
+  return components;
+}
+
+/**
+ * Explains why there is no route from `startId` to `endId`: the endpoints
+ * are not connected at all, or only stairs and/or closed places link them.
+ * In the latter case the blocking stair edges and closures are listed.
+ */
+export function diagnoseRoute(
+  graph: RouteGraph,
+  startId: string,
+  endId: string,
+  preferences: RoutePreferences = {}
+): RouteDiagnosis {
+  const start = graph.getNode(startId);
+  const end = graph.getNode(endId);
+  const diagnosis: RouteDiagnosis = {
+    reason: 'unknown-endpoint',
+    start,
+    end,
+    relaxation: null,
+    relaxedRoute: null,
+    stairEdges: [],
+    closedNodes: [],
+    closedEdges: [],
+  };
+  if (!start || !end) return diagnosis;
+
+  const route = (relaxation: Relaxation) =>
+    graph.findRoute(startId, endId, relaxPreferences(preferences, relaxation), { algorithm: 'astar' });
+
+  if (route({})) return { ...diagnosis, reason: 'reachable', relaxation: {} };
+
+  const components = connectedComponents(graph);
+  if (components.get(startId) !== components.get(endId)) {
+    return { ...diagnosis, reason: 'disconnected' };
+  }
+
+  // Lift one constraint at a time before lifting both
+  const attempts: [NoRouteReason, Relaxation][] = [
+    ['stairs', { allowStairs: true }],
+    ['closures', { ignoreClosures: true }],
+    ['stairs-and-closures', { allowStairs: true, ignoreClosures: true }],
+  ];
+  for (const [reason, relaxation] of attempts) {
+    const relaxedRoute = route(relaxation);
+    if (!relaxedRoute) continue;
+
+    const closures = preferences.closures ?? {};
+    return {
+      ...diagnosis,
+      reason,
+      relaxation,
+      relaxedRoute,
+      stairEdges: relaxation.allowStairs
+        ? relaxedRoute.edges.filter((edge, index) => usesStairs(edge, relaxedRoute.nodes[index + 1]))
+        : [],
+      // The start node is never entered, so it cannot block
+      closedNodes: relaxedRoute.nodes.slice(1).filter(node => closures.closedNodeIds?.has(node.id)),
+      closedEdges: relaxedRoute.edges.filter(edge => closures.closedEdgeIds?.has(edge.id)),
+    };
+  }
+
+  // Connected, yet blocked by something that cannot be relaxed here
+  return { ...diagnosis, reason: 'disconnected' };
+}
+
+/** One-sentence explanation of `diagnosis` for display. */
+export function explainDiagnosis(diagnosis: RouteDiagnosis): string {
+  const { start, end } = diagnosis;
+  const between = start && end ? ` between ${start.name} and ${end.name}` : '';
+
+  switch (diagnosis.reason) {
+    case 'unknown-endpoint':
+      return 'The start or destination is not on this map.';
+    case 'disconnected':
+      return `No mapped path connects ${start?.name ?? 'the start'} and ${end?.name ?? 'the destination'}.`;
+    case 'stairs': {
+      const count = diagnosis.stairEdges.length;
+      return `Every route${between} uses stairs (${count} ${count === 1 ? 'stair segment' : 'stair segments'}).`;
+    }
+    case 'closures':
+      return `Every route${between} passes a place reported broken.`;
+    case 'stairs-and-closures':
+      return `Every route${between} uses stairs and passes a place reported broken.`;
+    case 'reachable':
+      return 'A route is available.';
+  }
+}
@@ -0,0 +1,103 @@
+import { Node } from '@/types/graph';
+import { Instruction } from '@/utils/instructions';
+import { Point, projectOntoSegment } from '@/utils/map-coordinates';
+import { RouteResult } from '@/utils/routing';
+
+/** Positions farther than this from the route (or than the fix accuracy, if larger) count as off route. */
+export const OFF_ROUTE_METERS = 20;
+/** Consecutive off-route fixes before rerouting, so one stray fix does not trigger it. */
+export const OFF_ROUTE_FIXES = 3;
+/** A node counts as passed once the user is this far beyond it along the route. */
+export const PASS_METERS = 5;
+/** Within this distance of the destination the user has arrived. */
+export const ARRIVAL_METERS = 10;
+// How far ahead of the last position the user may jump between fixes; keeps a
+// route that doubles back from matching its return leg too early
+const LOOKAHEAD_METERS = 80;
+
+/** How far along a route the user is. */
+export type RouteProgress = {
+  /** Segment the user is on, from `route.nodes[segmentIndex]` to the next node. */
+  segmentIndex: number;
+  /** Distance from the route, in graph units. */
+  distance: number;
+  /** Instruction to follow next (index into the route's instructions). */
+  stepIndex: number;
+  /** Consecutive fixes beyond the off-route threshold. */
+  strayFixes: number;
+  /** Whether the user has strayed for `OFF_ROUTE_FIXES` fixes in a row. */
+  offRoute: boolean;
+  arrived: boolean;
+};
+
+export type TrackOptions = {
+  metersPerUnit: number;
+  /** Whether a route node is drawn on the map the position is on; other nodes are ignored. */
+  isOnMap: (node: Node) => boolean;
+};
+
+/**
+ * Updates `previous` (null for a new route) with a position on the map, in
+ * graph units. Progress only moves forward: the position is matched to the
+ * nearest segment at or after the previous one, and the step advances once
+ * the user passes the node where the current step's action happens. Null when
+ * no part of the route is on the position's map.
+ */
+export function trackRoute(
+  route: RouteResult,
+  instructions: Instruction[],
+  position: { raw: Point; accuracy: number },
+  { metersPerUnit, isOnMap }: TrackOptions,
+  previous: RouteProgress | null
+): RouteProgress | null {
+  const { nodes } = route;
+  const first = previous?.segmentIndex ?? 0;
+  const lookahead = previous ? LOOKAHEAD_METERS / metersPerUnit : Infinity;
+
+  let best: { segmentIndex: number; distance: number; beyond: number } | null = null;
+  // Route length from the start of the first searched segment
+  let ahead = 0;
+  for (let i = first; i < nodes.length - 1 && ahead <= lookahead; i++) {
+    const from = nodes[i];
+    const to = nodes[i + 1];
+    if (!isOnMap(from) || !isOnMap(to)) continue;
+
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    const { t, distance } = projectOntoSegment(position.raw, from, to);
+    if (!best || distance < best.distance) best = { segmentIndex: i, distance, beyond: t * length };
+    ahead += length;
+  }
+  if (!best) return previous;
+
+  const threshold = Math.max(OFF_ROUTE_METERS / metersPerUnit, position.accuracy);
+  const strayFixes = best.distance > threshold ? (previous?.strayFixes ?? 0) + 1 : 0;
+  // Away from the route the nearest segment says nothing about progress
+  if (strayFixes > 0 && previous) {
+    return { ...previous, distance: best.distance, strayFixes, offRoute: strayFixes >= OFF_ROUTE_FIXES };
+  }
+
+  const destination = nodes[nodes.length - 1];
+  const arrived =
+    isOnMap(destination) &&
+    Math.hypot(position.raw.x - destination.x, position.raw.y - destination.y) * metersPerUnit <= ARRIVAL_METERS;
+
+  // Last route node the user is past; -1 while still at the start
+  const passed = best.beyond * metersPerUnit >= PASS_METERS ? best.segmentIndex : best.segmentIndex - 1;
+  const upcoming = instructions.findIndex(instruction => instruction.startIndex > passed);
+  const stepIndex = arrived || upcoming < 0 ? instructions.length - 1 : upcoming;
+
+  return {
+    segmentIndex: best.segmentIndex,
+    distance: best.distance,
+    stepIndex: Math.max(stepIndex, previous?.stepIndex ?? 0),
+    strayFixes,
+    offRoute: strayFixes >= OFF_ROUTE_FIXES && !arrived,
+    arrived,
+  };
+}
+
+/** Stops among `stops` that the user has not reached yet, given their progress along `route`. */
+export function unvisitedStops(route: RouteResult, stops: Node[], progress: RouteProgress): Node[] {
+  const visited = new Set(route.nodes.slice(0, progress.segmentIndex + 1).map(node => node.id));
+  return stops.filter(stop => !visited.has(stop.id));
+}
@@ -1,9 +1,58 @@
-import { GraphData, Node } from '@/types/graph';
+import { Edge, GraphData, Node } from '@/types/graph';
+import { FloorChange, floorChangeOf, usesStairs } from '@/utils/floors';
+import { MOBILITY_PROFILES, MobilityProfile } from '@/utils/mobility';
+import { isElevatorNode, isRampNode } from '@/utils/node-kinds';
+import { MinHeap } from '@/utils/priority-queue';
+
+/**
+ * Bias toward elevators and away from ramps, for users who find slopes
+ * harder than waiting for a lift. Discounts and penalties scale with the
+ * edge's `distance` so they stay meaningful on graphs with other units.
+ */
+export type ElevatorBias = {
+  /**
+   * Fraction (0-1) of an edge's distance removed from its cost when the edge
+   * enters or leaves an elevator or lift node (see `isElevatorNode`).
+   */
+  elevatorDiscount?: number;
+  /** Extra cost per unit distance on edges that touch a ramp node. */
+  rampPenalty?: number;
+  /** Flat extra cost for a ramp edge longer than `longGradeDistance`. */
+  gradeChangePenalty?: number;
+  /** Ramp edges longer than this count as a long grade change. */
+  longGradeDistance?: number;
+};
+
+export const DEFAULT_ELEVATOR_BIAS: Required<ElevatorBias> = {
+  elevatorDiscount: 0.4,
+  rampPenalty: 0.5,
+  gradeChangePenalty: 40,
+  longGradeDistance: 50,
+};
+
+/**
+ * Places reported unusable (see `utils/closures.ts`). Closed nodes and edges
+ * are never used; penalized ones stay usable at a flat extra cost.
+ */
+export type ClosureSet = {
+  closedNodeIds?: ReadonlySet<string>;
+  closedEdgeIds?: ReadonlySet<string>;
+  penalizedNodeIds?: ReadonlySet<string>;
+  penalizedEdgeIds?: ReadonlySet<string>;
+  /** Added once per penalized edge traversed or penalized node entered. */
+  penalty?: number;
+};
 
 export type RoutePreferences = {
   /**
-   * If true, remove any edge where `no_stairs === false`.
-   * Use this for wheelchair mode or explicit "avoid stairs".
+   * Cost model for the traveller (distance effort, stairs, ramps, rests).
+   * Defaults to the standard mobility profile.
+   */
+  profile?: MobilityProfile;
+  /**
+   * If true, remove every stair edge (`no_stairs === false` or vertical
+   * stairs) and every `stairs` node, whatever the profile's stair handling.
+   * Used for explicit "avoid stairs".
    */
   disallowStairs?: boolean;
   /**
@@ -16,138 +65,809 @@ export type RoutePreferences = {
    * (inside -> outside or outside -> inside).
    */
   campusBoundaryPenalty?: number;
+  /** Used for "prefer elevators"; no bias when omitted. */
+  elevatorBias?: ElevatorBias;
+  /** Closures from user reports; nothing is closed when omitted. */
+  closures?: ClosureSet;
 };
 
-type Neighbor = {
-  id: string;
-  distance: number;
-  no_stairs: boolean;
+export type RouteAlgorithm = 'dijkstra' | 'astar';
+
+export type RouteQueryOptions = {
+  /**
+   * Restrict the search to nodes accepted by this predicate.
+   * Used for indoor-only routing without building a subgraph.
+   */
+  allowNode?: (node: Node) => boolean;
+  /**
+   * `astar` guides the search with the straight-line distance between node
+   * coordinates. Defaults to `dijkstra`.
+   */
+  algorithm?: RouteAlgorithm;
 };
 
-type GraphAdj = Record<string, Neighbor[]>;
+export type AlternativeRouteOptions = RouteQueryOptions & {
+  /**
+   * Routes sharing more than this fraction of their distance with an already
+   * accepted route are treated as trivial variations and skipped.
+   * Defaults to 0.9.
+   */
+  maxOverlap?: number;
+  /** Upper bound on Yen iterations, including rejected near-duplicates. */
+  maxCandidates?: number;
+};
 
-export function findShortestPath(
-  data: GraphData,
-  startId: string,
-  endId: string,
-  preferences: RoutePreferences = {}
-): string[] | null {
-  const nodeMap = new Map<string, Node>();
-  data.nodes.forEach(node => nodeMap.set(node.id, node));
+export type RouteSearchStats = {
+  path: string[] | null;
+  /** Algorithm that produced `path` (A* may fall back to Dijkstra). */
+  algorithm: RouteAlgorithm;
+  /** Number of nodes settled, including those of a discarded A* attempt. */
+  expandedNodes: number;
+  /** True when A* detected an inconsistent heuristic and reran as Dijkstra. */
+  heuristicFallback: boolean;
+};
+
+/** Cost of one traversed edge, split by where it comes from. */
+export type SegmentCost = {
+  /** The edge's own `distance`. */
+  base: number;
+  outdoorPenalty: number;
+  boundaryPenalty: number;
+  /** Amount subtracted for using an elevator (0 or positive). */
+  elevatorDiscount: number;
+  /** Ramp and long-grade penalties combined. */
+  rampPenalty: number;
+  /** Mobility profile effort, stair, ramp and rest adjustments combined (may be negative). */
+  profileAdjustment: number;
+  /** Extra cost for passing a place reported under construction. */
+  closurePenalty: number;
+  /** What the router actually charged for the segment. */
+  total: number;
+};
+
+export type RouteSegment = {
+  from: Node;
+  to: Node;
+  edge: Edge;
+  cost: SegmentCost;
+  /** True when either endpoint is outdoors, or neither is marked `indoor`. */
+  outdoor: boolean;
+  crossesCampusBoundary: boolean;
+  /** Set when the segment is a vertical edge (elevator, lift or stairs). */
+  floorChange: FloorChange | null;
+};
+
+export type RouteSummary = {
+  /** Sum of edge distances, in graph units. */
+  totalDistance: number;
+  /** Sum of segment costs including penalties. */
+  totalCost: number;
+  outdoorPenalty: number;
+  boundaryPenalty: number;
+  elevatorDiscount: number;
+  rampPenalty: number;
+  profileAdjustment: number;
+  closurePenalty: number;
+  /** Nodes where the mobility profile suggests a rest, in route order. */
+  restStops: Node[];
+  /** Distinct elevator nodes on the route. */
+  elevatorCount: number;
+  outdoorDistance: number;
+  /** `outdoorDistance / totalDistance`, 0 for single-node routes. */
+  outdoorShare: number;
+  boundaryCrossings: number;
+  /** Vertical edges traversed. */
+  floorChanges: number;
+};
+
+export type RouteResult = {
+  /** Ordered nodes from start to destination. */
+  nodes: Node[];
+  /** Traversed edges; `edges[i]` connects `nodes[i]` and `nodes[i + 1]`. */
+  edges: Edge[];
+  segments: RouteSegment[];
+  summary: RouteSummary;
+};
+
+type ResolvedPreferences = {
+  disallowStairs: boolean;
+  outdoorPenalty: number;
+  campusBoundaryPenalty: number;
+  elevatorDiscount: number;
+  rampPenalty: number;
+  gradeChangePenalty: number;
+  longGradeDistance: number;
+  distanceMultiplier: number;
+  stairPenalty: number;
+  rampPreference: number;
+  restInterval: number;
+  restPenalty: number;
+  closedNodeIds: ReadonlySet<string>;
+  closedEdgeIds: ReadonlySet<string>;
+  penalizedNodeIds: ReadonlySet<string>;
+  penalizedEdgeIds: ReadonlySet<string>;
+  closurePenalty: number;
+  /** Lower bound of cost / distance for any edge; scales the A* heuristic. */
+  minCostFactor: number;
+};
+
+const NO_IDS: ReadonlySet<string> = new Set();
+
+function resolvePreferences(preferences: RoutePreferences): ResolvedPreferences {
+  const profile = preferences.profile ?? MOBILITY_PROFILES.standard;
+  const bias = preferences.elevatorBias ?? {};
+  const closures = preferences.closures ?? {};
+  // Keep elevator edges strictly positive so Dijkstra stays valid
+  const elevatorDiscount = Math.min(0.9, Math.max(0, bias.elevatorDiscount ?? 0));
+  const distanceMultiplier = profile.distanceMultiplier > 0 ? profile.distanceMultiplier : 1;
+  const rampPreference = Number.isFinite(profile.rampPreference) ? profile.rampPreference : 0;
+
+  return {
+    disallowStairs: !!preferences.disallowStairs || profile.stairs === 'avoid',
+    outdoorPenalty: Math.max(0, preferences.outdoorPenalty ?? 0),
+    campusBoundaryPenalty: Math.max(0, preferences.campusBoundaryPenalty ?? 0),
+    elevatorDiscount,
+    rampPenalty: Math.max(0, bias.rampPenalty ?? 0),
+    gradeChangePenalty: Math.max(0, bias.gradeChangePenalty ?? 0),
+    longGradeDistance: Math.max(0, bias.longGradeDistance ?? 0),
+    distanceMultiplier,
+    stairPenalty: profile.stairs === 'penalize' ? Math.max(0, profile.stairPenalty) : 0,
+    rampPreference,
+    restInterval: Math.max(0, profile.restInterval),
+    restPenalty: Math.max(0, profile.restPenalty),
+    closedNodeIds: closures.closedNodeIds ?? NO_IDS,
+    closedEdgeIds: closures.closedEdgeIds ?? NO_IDS,
+    penalizedNodeIds: closures.penalizedNodeIds ?? NO_IDS,
+    penalizedEdgeIds: closures.penalizedEdgeIds ?? NO_IDS,
+    closurePenalty: Math.max(0, closures.penalty ?? 0),
+    minCostFactor: Math.max(0, distanceMultiplier + Math.min(0, rampPreference) - elevatorDiscount),
+  };
+}
+
+/** Whether stairs are excluded outright under these preferences (explicitly or by profile). */
+export function excludesStairs(preferences: RoutePreferences): boolean {
+  return resolvePreferences(preferences).disallowStairs;
+}
+
+const isOutdoorNode = (node: Node) => node.indoor === false || node.outside_campus === true;
+
+const crossesIndoorOutdoor = (from: Node, to: Node) =>
+  (from.indoor === true && isOutdoorNode(to)) || (to.indoor === true && isOutdoorNode(from));
 
-  const graph: GraphAdj = {};
-  data.nodes.forEach(node => {
-    graph[node.id] = [];
-  });
+const isOutdoorSegment = (from: Node, to: Node) =>
+  isOutdoorNode(from) || isOutdoorNode(to) || (from.indoor !== true && to.indoor !== true);
 
-  const disallowStairs = !!preferences.disallowStairs;
-  // Stairs penalty is intentionally disabled (graph should already be stair-free)
-  const stairsPenalty = 0;
-  const outdoorPenalty = Math.max(0, preferences.outdoorPenalty ?? 0);
-  const campusBoundaryPenalty = Math.max(0, preferences.campusBoundaryPenalty ?? 0);
+const crossesCampusBoundary = (from: Node, to: Node) =>
+  !!from.outside_campus !== !!to.outside_campus;
 
-  const isOutdoorNode = (node?: Node) =>
-    node?.indoor === false || node?.outside_campus === true;
+const usesElevator = (from: Node, to: Node, edge: Edge) =>
+  isElevatorNode(from) ||
+  isElevatorNode(to) ||
+  edge.vertical === 'elevator' ||
+  edge.vertical === 'lift';
 
-  const edgeCost = (fromId: string, toId: string, neighbor: Neighbor) => {
-    let cost = neighbor.distance;
+const touchesRamp = (from: Node, to: Node) => isRampNode(from) || isRampNode(to);
 
-    if (neighbor.no_stairs === false) {
-      cost += stairsPenalty;
+// Tolerance for floating point noise when checking heuristic consistency
+const HEURISTIC_EPSILON = 1e-9;
+
+const DEFAULT_MAX_OVERLAP = 0.9;
+// Yen paths examined per requested route before giving up on finding distinct ones
+const YEN_CANDIDATE_FACTOR = 5;
+
+/** Route as node and edge indices into a `RouteGraph`. */
+type RouteTrace = { nodes: number[]; edges: number[] };
+
+const traceKey = (trace: RouteTrace) => trace.edges.join(',');
+
+/** True when `a` and `b` agree on their first `length` nodes and the edges between them. */
+function sharesRoot(a: RouteTrace, b: RouteTrace, length: number): boolean {
+  if (a.nodes.length < length || b.nodes.length < length) return false;
+  for (let i = 0; i < length; i++) {
+    if (a.nodes[i] !== b.nodes[i]) return false;
+    if (i > 0 && a.edges[i - 1] !== b.edges[i - 1]) return false;
+  }
+  return true;
+}
+
+type QueryOutcome = Omit<RouteSearchStats, 'path'> & {
+  trace: RouteTrace | null;
+  preferences: ResolvedPreferences;
+};
+
+type SearchConstraints = {
+  allowNode?: RouteQueryOptions['allowNode'];
+  /** Node indices the search may not enter (flag per node). */
+  blockedNodes?: Uint8Array;
+  /** Edge indices the search may not traverse (flag per edge). */
+  blockedEdges?: Uint8Array;
+};
+
+type SearchOutcome = {
+  distances: Float64Array;
+  previous: Int32Array;
+  /** Edge index used to reach each node from `previous`. */
+  previousEdge: Int32Array;
+  expandedNodes: number;
+  /** False when an edge violated h(u) <= cost(u, v) + h(v); the result must not be trusted. */
+  consistent: boolean;
+};
+
+/**
+ * Routing engine built once per `GraphData`.
+ *
+ * Nodes are addressed by their position in `nodes`; the adjacency index is a
+ * compressed (CSR) layout over typed arrays and never changes after
+ * construction. Preferences are applied while searching, so switching
+ * settings does not rebuild anything.
+ */
+export class RouteGraph {
+  readonly nodes: readonly Node[];
+  readonly edges: readonly Edge[];
+
+  private readonly indexById = new Map<string, number>();
+  /** Neighbors of node `i` live in `adjNodes[adjOffsets[i]] .. adjNodes[adjOffsets[i + 1] - 1]`. */
+  private readonly adjOffsets: Int32Array;
+  private readonly adjNodes: Int32Array;
+  /** Index into `edges` for each adjacency entry. */
+  private readonly adjEdges: Int32Array;
+  /**
+   * Largest factor `k` such that `k * euclidean(u, v) <= edge.distance` for
+   * every edge, so `k * euclidean` never overestimates the remaining distance.
+   */
+  readonly heuristicScale: number;
+
+  constructor(data: GraphData) {
+    this.nodes = Object.freeze([...data.nodes]);
+    this.nodes.forEach((node, index) => this.indexById.set(node.id, index));
+
+    // Drop edges whose endpoints are not in the node list
+    const usable: { edge: Edge; source: number; target: number }[] = [];
+    data.edges.forEach(edge => {
+      const source = this.indexById.get(edge.sourceId);
+      const target = this.indexById.get(edge.targetId);
+      if (source === undefined || target === undefined) return;
+      usable.push({ edge, source, target });
+    });
+    this.edges = Object.freeze(usable.map(entry => entry.edge));
+
+    const nodeCount = this.nodes.length;
+    const degree = new Int32Array(nodeCount);
+    usable.forEach(({ source, target }) => {
+      degree[source]++;
+      degree[target]++;
+    });
+
+    this.adjOffsets = new Int32Array(nodeCount + 1);
+    for (let i = 0; i < nodeCount; i++) {
+      this.adjOffsets[i + 1] = this.adjOffsets[i] + degree[i];
     }
 
-    const fromNode = nodeMap.get(fromId);
-    const toNode = nodeMap.get(toId);
+    this.adjNodes = new Int32Array(this.adjOffsets[nodeCount]);
+    this.adjEdges = new Int32Array(this.adjOffsets[nodeCount]);
+    const cursor = this.adjOffsets.slice(0, nodeCount);
+    usable.forEach(({ source, target }, edgeIndex) => {
+      this.adjNodes[cursor[source]] = target;
+      this.adjEdges[cursor[source]++] = edgeIndex;
+      this.adjNodes[cursor[target]] = source;
+      this.adjEdges[cursor[target]++] = edgeIndex;
+    });
 
-    // Apply outdoor penalty only when moving between indoor and outdoor and setting is enabled
-    const crossesIndoorOutdoor =
-      (fromNode?.indoor === true && isOutdoorNode(toNode)) ||
-      (toNode?.indoor === true && isOutdoorNode(fromNode));
-    if (outdoorPenalty > 0 && crossesIndoorOutdoor) {
-      cost += outdoorPenalty;
+    let scale = Infinity;
+    usable.forEach(({ edge, source, target }) => {
+      const length = this.euclidean(source, target);
+      if (length > 0) scale = Math.min(scale, Math.max(0, edge.distance) / length);
+    });
+    this.heuristicScale = Number.isFinite(scale) ? scale : 0;
+  }
+
+  get nodeCount(): number {
+    return this.nodes.length;
+  }
+
+  hasNode(id: string): boolean {
+    return this.indexById.has(id);
+  }
+
+  getNode(id: string): Node | undefined {
+    const index = this.indexById.get(id);
+    return index === undefined ? undefined : this.nodes[index];
+  }
+
+  /**
+   * Shortest path between two node ids under the given preferences, or null
+   * when either endpoint is unknown or unreachable.
+   */
+  findPath(
+    startId: string,
+    endId: string,
+    preferences: RoutePreferences = {},
+    options: RouteQueryOptions = {}
+  ): string[] | null {
+    return this.searchPath(startId, endId, preferences, options).path;
+  }
+
+  /** Same as `findPath`, plus search statistics for comparing algorithms. */
+  searchPath(
+    startId: string,
+    endId: string,
+    preferences: RoutePreferences = {},
+    options: RouteQueryOptions = {}
+  ): RouteSearchStats {
+    const { trace, algorithm, expandedNodes, heuristicFallback } = this.query(
+      startId,
+      endId,
+      preferences,
+      options
+    );
+    return {
+      path: trace ? trace.nodes.map(index => this.nodes[index].id) : null,
+      algorithm,
+      expandedNodes,
+      heuristicFallback,
+    };
+  }
+
+  /**
+   * Shortest route with the traversed edges, a per-segment cost breakdown and
+   * summary totals, or null when no route exists.
+   */
+  findRoute(
+    startId: string,
+    endId: string,
+    preferences: RoutePreferences = {},
+    options: RouteQueryOptions = {}
+  ): RouteResult | null {
+    const outcome = this.query(startId, endId, preferences, options);
+    return outcome.trace ? this.buildResult(outcome.trace, outcome.preferences) : null;
+  }
+
+  /**
+   * Up to `count` loopless routes in increasing cost order (Yen's algorithm),
+   * starting with the shortest one. Near-duplicates of an earlier route are
+   * dropped, see `AlternativeRouteOptions.maxOverlap`.
+   */
+  findAlternativeRoutes(
+    startId: string,
+    endId: string,
+    count: number,
+    preferences: RoutePreferences = {},
+    options: AlternativeRouteOptions = {}
+  ): RouteResult[] {
+    const first = this.query(startId, endId, preferences, options);
+    if (!first.trace || count < 1) return [];
+
+    const resolved = first.preferences;
+    const algorithm = options.algorithm ?? 'dijkstra';
+    const maxOverlap = options.maxOverlap ?? DEFAULT_MAX_OVERLAP;
+    const maxPaths = Math.max(count, options.maxCandidates ?? count * YEN_CANDIDATE_FACTOR);
+    const end = first.trace.nodes[first.trace.nodes.length - 1];
+
+    const found: RouteTrace[] = [first.trace];
+    const accepted: RouteTrace[] = [first.trace];
+    const candidates: { trace: RouteTrace; cost: number }[] = [];
+    const seen = new Set<string>([traceKey(first.trace)]);
+
+    while (accepted.length < count && found.length < maxPaths) {
+      const previous = found[found.length - 1];
+
+      for (let i = 0; i < previous.nodes.length - 1; i++) {
+        const blockedNodes = new Uint8Array(this.nodes.length);
+        const blockedEdges = new Uint8Array(this.edges.length);
+
+        // Keep the spur loopless and force it off every known path sharing this root
+        for (let j = 0; j < i; j++) blockedNodes[previous.nodes[j]] = 1;
+        found.forEach(path => {
+          if (path.edges.length > i && sharesRoot(path, previous, i + 1)) {
+            blockedEdges[path.edges[i]] = 1;
+          }
+        });
+
+        const spur = this.run(previous.nodes[i], end, resolved, algorithm, {
+          allowNode: options.allowNode,
+          blockedNodes,
+          blockedEdges,
+        }).trace;
+        if (!spur) continue;
+
+        const trace: RouteTrace = {
+          nodes: [...previous.nodes.slice(0, i), ...spur.nodes],
+          edges: [...previous.edges.slice(0, i), ...spur.edges],
+        };
+        const key = traceKey(trace);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        candidates.push({ trace, cost: this.traceCost(trace, resolved) });
+      }
+
+      if (candidates.length === 0) break;
+
+      candidates.sort((a, b) => a.cost - b.cost);
+      const next = candidates.shift()!.trace;
+      found.push(next);
+      if (accepted.every(route => this.overlap(route, next) <= maxOverlap)) {
+        accepted.push(next);
+      }
+    }
+
+    return accepted.map(trace => this.buildResult(trace, resolved));
+  }
+
+  private query(
+    startId: string,
+    endId: string,
+    preferences: RoutePreferences,
+    options: RouteQueryOptions
+  ): QueryOutcome {
+    const algorithm = options.algorithm ?? 'dijkstra';
+    const resolved = resolvePreferences(preferences);
+    const start = this.indexById.get(startId);
+    const end = this.indexById.get(endId);
+    const { allowNode } = options;
+
+    if (
+      start === undefined ||
+      end === undefined ||
+      (allowNode && (!allowNode(this.nodes[start]) || !allowNode(this.nodes[end])))
+    ) {
+      return {
+        trace: null,
+        preferences: resolved,
+        algorithm,
+        expandedNodes: 0,
+        heuristicFallback: false,
+      };
     }
 
-    if (campusBoundaryPenalty > 0) {
-      const fromOutside = !!fromNode?.outside_campus;
-      const toOutside = !!toNode?.outside_campus;
-      if (fromOutside !== toOutside) {
-        cost += campusBoundaryPenalty;
+    return {
+      ...this.run(start, end, resolved, algorithm, { allowNode }),
+      preferences: resolved,
+    };
+  }
+
+  /** Runs the requested algorithm between two node indices, falling back from A* when needed. */
+  private run(
+    start: number,
+    end: number,
+    preferences: ResolvedPreferences,
+    algorithm: RouteAlgorithm,
+    constraints: SearchConstraints
+  ): Omit<QueryOutcome, 'preferences'> {
+    if (algorithm === 'astar' && this.heuristicScale > 0) {
+      const outcome = this.search(start, end, preferences, constraints, true);
+      if (outcome.consistent) {
+        return {
+          trace: this.reconstruct(outcome, end),
+          algorithm: 'astar',
+          expandedNodes: outcome.expandedNodes,
+          heuristicFallback: false,
+        };
       }
+
+      // Penalties made the heuristic inconsistent; rerun without it
+      const fallback = this.search(start, end, preferences, constraints, false);
+      return {
+        trace: this.reconstruct(fallback, end),
+        algorithm: 'dijkstra',
+        expandedNodes: outcome.expandedNodes + fallback.expandedNodes,
+        heuristicFallback: true,
+      };
     }
 
-    return cost > 0 ? cost : neighbor.distance;
-  };
+    const outcome = this.search(start, end, preferences, constraints, false);
+    return {
+      trace: this.reconstruct(outcome, end),
+      algorithm: 'dijkstra',
+      expandedNodes: outcome.expandedNodes,
+      heuristicFallback: false,
+    };
+  }
 
-  data.edges.forEach(edge => {
-    // Remove non-accessible edges when required (wheelchair / avoid stairs)
-    if (disallowStairs && edge.no_stairs === false) return;
+  /**
+   * Dijkstra's Algorithm with lazy deletion of stale heap entries. With
+   * `useHeuristic` the heap is ordered by g + h (A*), and the search stops
+   * as soon as an edge shows the heuristic is inconsistent.
+   */
+  private search(
+    start: number,
+    end: number,
+    preferences: ResolvedPreferences,
+    constraints: SearchConstraints,
+    useHeuristic: boolean
+  ): SearchOutcome {
+    const { allowNode, blockedNodes, blockedEdges } = constraints;
+    const nodeCount = this.nodes.length;
+    const distances = new Float64Array(nodeCount).fill(Infinity);
+    const previous = new Int32Array(nodeCount).fill(-1);
+    const previousEdge = new Int32Array(nodeCount).fill(-1);
+    const settled = new Uint8Array(nodeCount);
+    const heap = new MinHeap();
+    const heuristicScale = this.heuristicScale * preferences.minCostFactor;
+    const heuristic = (index: number) =>
+      useHeuristic ? heuristicScale * this.euclidean(index, end) : 0;
 
-    if (graph[edge.sourceId]) {
-      graph[edge.sourceId].push({
-        id: edge.targetId,
-        distance: edge.distance,
-        no_stairs: edge.no_stairs,
-      });
+    let expandedNodes = 0;
+    distances[start] = 0;
+    heap.push(start, heuristic(start));
+
+    while (heap.size > 0) {
+      const current = heap.pop()!;
+      if (settled[current]) continue;
+      settled[current] = 1;
+      expandedNodes++;
+      if (current === end) break;
+
+      const fromNode = this.nodes[current];
+      const currentHeuristic = heuristic(current);
+      for (let k = this.adjOffsets[current]; k < this.adjOffsets[current + 1]; k++) {
+        const next = this.adjNodes[k];
+        const edgeIndex = this.adjEdges[k];
+        if (blockedNodes?.[next] || blockedEdges?.[edgeIndex]) continue;
+
+        const toNode = this.nodes[next];
+        if (allowNode && !allowNode(toNode)) continue;
+
+        const cost = this.edgeCost(fromNode, toNode, this.edges[edgeIndex], preferences);
+        if (cost === Infinity) continue;
+
+        const nextHeuristic = heuristic(next);
+        if (useHeuristic && currentHeuristic > cost + nextHeuristic + HEURISTIC_EPSILON) {
+          return { distances, previous, previousEdge, expandedNodes, consistent: false };
+        }
+        if (settled[next]) continue;
+
+        const alt = distances[current] + cost;
+        if (alt < distances[next]) {
+          distances[next] = alt;
+          previous[next] = current;
+          previousEdge[next] = edgeIndex;
+          heap.push(next, alt + nextHeuristic);
+        }
+      }
     }
 
-    if (graph[edge.targetId]) {
-      graph[edge.targetId].push({
-        id: edge.sourceId,
-        distance: edge.distance,
-        no_stairs: edge.no_stairs,
+    return { distances, previous, previousEdge, expandedNodes, consistent: true };
+  }
+
+  private reconstruct(outcome: SearchOutcome, end: number): RouteTrace | null {
+    if (outcome.distances[end] === Infinity) return null;
+
+    const nodes: number[] = [];
+    const edges: number[] = [];
+    for (let u = end; u !== -1; u = outcome.previous[u]) {
+      nodes.push(u);
+      if (outcome.previousEdge[u] !== -1) edges.push(outcome.previousEdge[u]);
+    }
+    return { nodes: nodes.reverse(), edges: edges.reverse() };
+  }
+
+  private buildResult(trace: RouteTrace, preferences: ResolvedPreferences): RouteResult {
+    const nodes = trace.nodes.map(index => this.nodes[index]);
+    const edges = trace.edges.map(index => this.edges[index]);
+
+    const segments: RouteSegment[] = edges.map((edge, i) => {
+      const from = nodes[i];
+      const to = nodes[i + 1];
+      return {
+        from,
+        to,
+        edge,
+        cost: this.segmentCost(from, to, edge, preferences),
+        outdoor: isOutdoorSegment(from, to),
+        crossesCampusBoundary: crossesCampusBoundary(from, to),
+        floorChange: floorChangeOf(from, to, edge),
+      };
+    });
+
+    const summary: RouteSummary = {
+      totalDistance: 0,
+      totalCost: 0,
+      outdoorPenalty: 0,
+      boundaryPenalty: 0,
+      elevatorDiscount: 0,
+      rampPenalty: 0,
+      profileAdjustment: 0,
+      closurePenalty: 0,
+      restStops: [],
+      elevatorCount: new Set(nodes.filter(isElevatorNode).map(node => node.id)).size,
+      outdoorDistance: 0,
+      outdoorShare: 0,
+      boundaryCrossings: 0,
+      floorChanges: 0,
+    };
+    segments.forEach(segment => {
+      summary.totalDistance += segment.cost.base;
+      summary.totalCost += segment.cost.total;
+      summary.outdoorPenalty += segment.cost.outdoorPenalty;
+      summary.boundaryPenalty += segment.cost.boundaryPenalty;
+      summary.elevatorDiscount += segment.cost.elevatorDiscount;
+      summary.rampPenalty += segment.cost.rampPenalty;
+      summary.profileAdjustment += segment.cost.profileAdjustment;
+      summary.closurePenalty += segment.cost.closurePenalty;
+      if (segment.outdoor) summary.outdoorDistance += segment.cost.base;
+      if (segment.crossesCampusBoundary) summary.boundaryCrossings++;
+      if (segment.floorChange) summary.floorChanges++;
+    });
+    if (summary.totalDistance > 0) {
+      summary.outdoorShare = summary.outdoorDistance / summary.totalDistance;
+    }
+
+    // Rest before the segment that would take the traveller past the profile's interval
+    if (preferences.restInterval > 0) {
+      let sinceRest = 0;
+      segments.forEach((segment, i) => {
+        if (i > 0 && sinceRest + segment.cost.base > preferences.restInterval) {
+          summary.restStops.push(segment.from);
+          sinceRest = 0;
+        }
+        sinceRest += segment.cost.base;
       });
     }
-  });
 
-  // Dijkstra's Algorithm
-  const distances: { [key: string]: number } = {};
-  const previous: { [key: string]: string | null } = {};
-  const pq: string[] = []; // Simple priority queue (array based for simplicity given graph size < 2000 nodes)
+    return { nodes, edges, segments, summary };
+  }
+
+  private traceCost(trace: RouteTrace, preferences: ResolvedPreferences): number {
+    let total = 0;
+    trace.edges.forEach((edgeIndex, i) => {
+      total += this.edgeCost(
+        this.nodes[trace.nodes[i]],
+        this.nodes[trace.nodes[i + 1]],
+        this.edges[edgeIndex],
+        preferences
+      );
+    });
+    return total;
+  }
+
+  /** Shared edge distance of two routes relative to the shorter one (1 = identical). */
+  private overlap(a: RouteTrace, b: RouteTrace): number {
+    const length = (trace: RouteTrace) =>
+      trace.edges.reduce((sum, edgeIndex) => sum + this.edges[edgeIndex].distance, 0);
+    const shorter = Math.min(length(a), length(b));
+    if (shorter <= 0) return 1;
+
+    const inA = new Set(a.edges);
+    const shared = new Set(b.edges.filter(edgeIndex => inA.has(edgeIndex)));
+    let sharedLength = 0;
+    shared.forEach(edgeIndex => {
+      sharedLength += this.edges[edgeIndex].distance;
+    });
+    return sharedLength / shorter;
+  }
+
+  private euclidean(a: number, b: number): number {
+    return Math.hypot(this.nodes[a].x - this.nodes[b].x, this.nodes[a].y - this.nodes[b].y);
+  }
+
+  /** Cost of traversing `edge` from `fromNode` to `toNode`; Infinity when the edge is excluded. */
+  private edgeCost(fromNode: Node, toNode: Node, edge: Edge, preferences: ResolvedPreferences): number {
+    // Remove non-accessible edges when required (wheelchair / avoid stairs)
+    if (preferences.disallowStairs && usesStairs(edge, toNode)) return Infinity;
+    // Reported closures; the start node itself is never entered, so it stays usable
+    if (preferences.closedEdgeIds.has(edge.id) || preferences.closedNodeIds.has(toNode.id)) {
+      return Infinity;
+    }
+
+    let cost = edge.distance + this.profileAdjustment(fromNode, toNode, edge, preferences);
 
-  data.nodes.forEach(node => {
-    distances[node.id] = Infinity;
-    previous[node.id] = null;
-    pq.push(node.id);
-  });
+    // Apply outdoor penalty only when moving between indoor and outdoor and setting is enabled
+    if (preferences.outdoorPenalty > 0 && crossesIndoorOutdoor(fromNode, toNode)) {
+      cost += preferences.outdoorPenalty;
+    }
 
-  distances[startId] = 0;
+    if (preferences.campusBoundaryPenalty > 0 && crossesCampusBoundary(fromNode, toNode)) {
+      cost += preferences.campusBoundaryPenalty;
+    }
 
-  while (pq.length > 0) {
-    // Sort pq by distance (naive implementation)
-    pq.sort((a, b) => distances[a] - distances[b]);
-    const shortestNodeId = pq.shift(); // Remove node with smallest distance
+    cost -= this.elevatorDiscount(fromNode, toNode, edge, preferences);
+    cost += this.rampPenalty(fromNode, toNode, edge, preferences);
 
-    if (!shortestNodeId) break;
-    if (shortestNodeId === endId) break; // Reached destination
-    if (distances[shortestNodeId] === Infinity) break; // Remaining nodes unreachable
+    // Applied after the floor below so a discount can never cancel it
+    return (cost > 0 ? cost : edge.distance) + this.closurePenalty(toNode, edge, preferences);
+  }
 
-    const neighbors = graph[shortestNodeId];
-    if (!neighbors) continue;
+  /** Breakdown of `edgeCost` for a segment already on a route. */
+  private segmentCost(fromNode: Node, toNode: Node, edge: Edge, preferences: ResolvedPreferences): SegmentCost {
+    const outdoorPenalty = crossesIndoorOutdoor(fromNode, toNode) ? preferences.outdoorPenalty : 0;
+    const boundaryPenalty = crossesCampusBoundary(fromNode, toNode)
+      ? preferences.campusBoundaryPenalty
+      : 0;
 
-    for (const neighbor of neighbors) {
-      if (distances[neighbor.id] === undefined) continue;
+    return {
+      base: edge.distance,
+      outdoorPenalty,
+      boundaryPenalty,
+      elevatorDiscount: this.elevatorDiscount(fromNode, toNode, edge, preferences),
+      rampPenalty: this.rampPenalty(fromNode, toNode, edge, preferences),
+      profileAdjustment: this.profileAdjustment(fromNode, toNode, edge, preferences),
+      closurePenalty: this.closurePenalty(toNode, edge, preferences),
+      total: this.edgeCost(fromNode, toNode, edge, preferences),
+    };
+  }
 
-      const alt =
-        distances[shortestNodeId] + edgeCost(shortestNodeId, neighbor.id, neighbor);
+  /** Cost the mobility profile adds to (or removes from) the plain edge distance. */
+  private profileAdjustment(fromNode: Node, toNode: Node, edge: Edge, preferences: ResolvedPreferences): number {
+    const distance = Math.max(0, edge.distance);
+    let adjustment = distance * (preferences.distanceMultiplier - 1);
 
-      if (alt < distances[neighbor.id]) {
-        distances[neighbor.id] = alt;
-        previous[neighbor.id] = shortestNodeId;
-      }
+    if (usesStairs(edge, toNode)) {
+      adjustment += distance * preferences.stairPenalty;
+    }
+    if (touchesRamp(fromNode, toNode)) {
+      adjustment += distance * preferences.rampPreference;
+    }
+    if (preferences.restInterval > 0 && distance > preferences.restInterval) {
+      adjustment += (distance - preferences.restInterval) * preferences.restPenalty;
     }
+
+    return adjustment;
+  }
+
+  private elevatorDiscount(fromNode: Node, toNode: Node, edge: Edge, preferences: ResolvedPreferences): number {
+    if (preferences.elevatorDiscount <= 0 || !usesElevator(fromNode, toNode, edge)) return 0;
+    return Math.max(0, edge.distance) * preferences.elevatorDiscount;
   }
 
-  // Reconstruct path
-  const path: string[] = [];
-  let u: string | null = endId;
-  
-  if (previous[u] !== null || u === startId) {
-    while (u !== null) {
-      path.unshift(u);
-      u = previous[u];
+  private closurePenalty(toNode: Node, edge: Edge, preferences: ResolvedPreferences): number {
+    if (preferences.closurePenalty <= 0) return 0;
+
+    let penalty = 0;
+    if (preferences.penalizedEdgeIds.has(edge.id)) penalty += preferences.closurePenalty;
+    if (preferences.penalizedNodeIds.has(toNode.id)) penalty += preferences.closurePenalty;
+    return penalty;
+  }
+
+  private rampPenalty(fromNode: Node, toNode: Node, edge: Edge, preferences: ResolvedPreferences): number {
+    if (!touchesRamp(fromNode, toNode)) return 0;
+
+    let penalty = Math.max(0, edge.distance) * preferences.rampPenalty;
+    if (preferences.gradeChangePenalty > 0 && edge.distance > preferences.longGradeDistance) {
+      penalty += preferences.gradeChangePenalty;
     }
+    return penalty;
   }
+}
 
-  return path.length > 0 ? path : null;
+const routeGraphCache = new WeakMap<GraphData, RouteGraph>();
+
+/** Returns a `RouteGraph` for `data`, reusing the one built for the same object. */
+export function getRouteGraph(data: GraphData): RouteGraph {
+  let graph = routeGraphCache.get(data);
+  if (!graph) {
+    graph = new RouteGraph(data);
+    routeGraphCache.set(data, graph);
+  }
+  return graph;
 }
 
+export function findShortestPath(
+  data: GraphData,
+  startId: string,
+  endId: string,
+  preferences: RoutePreferences = {},
+  options: RouteQueryOptions = {}
+): string[] | null {
+  return getRouteGraph(data).findPath(startId, endId, preferences, options);
+}
+
+export function findRoute(
+  data: GraphData,
+  startId: string,
+  endId: string,
+  preferences: RoutePreferences = {},
+  options: RouteQueryOptions = {}
+): RouteResult | null {
+  return getRouteGraph(data).findRoute(startId, endId, preferences, options);
+}
+
+export function findAlternativeRoutes(
+  data: GraphData,
+  startId: string,
+  endId: string,
+  count: number,
+  preferences: RoutePreferences = {},
+  options: AlternativeRouteOptions = {}
+): RouteResult[] {
+  return getRouteGraph(data).findAlternativeRoutes(startId, endId, count, preferences, options);
+}
@@ -0,0 +1,62 @@
+import { MAP_METERS_PER_UNIT } from '@/constants/map';
+import { Instruction } from '@/utils/instructions';
+import { MobilityProfile } from '@/utils/mobility';
+
+export type DistanceUnits = 'metric' | 'imperial';
+
+const FEET_PER_METER = 3.28084;
+const FEET_PER_MILE = 5280;
+
+/** Real-world length of a graph distance, using the map's scale calibration. */
+export const toMeters = (graphDistance: number, metersPerUnit = MAP_METERS_PER_UNIT) =>
+  graphDistance * metersPerUnit;
+
+const roundTo = (value: number, step: number) => Math.max(step, Math.round(value / step) * step);
+
+/** "45 m", "210 m", "1.2 km" or "150 ft", "690 ft", "0.4 mi". */
+export function formatDistance(meters: number, units: DistanceUnits): string {
+  if (units === 'imperial') {
+    const feet = meters * FEET_PER_METER;
+    if (feet >= 1000) return `${(feet / FEET_PER_MILE).toFixed(1)} mi`;
+    return `${roundTo(feet, feet < 100 ? 5 : 10)} ft`;
+  }
+  if (meters >= 1000) return `${(meters / 1000).toFixed(1)} km`;
+  return `${roundTo(meters, meters < 100 ? 5 : 10)} m`;
+}
+
+/** "under 1 min" or "about 4 min". */
+export function formatDuration(seconds: number): string {
+  if (seconds < 30) return 'under 1 min';
+  return `about ${Math.round(seconds / 60)} min`;
+}
+
+/** Seconds to cover `meters`, plus the profile's allowance for each elevator ride. */
+export function estimateSeconds(meters: number, elevatorRides: number, profile: MobilityProfile): number {
+  const speed = profile.speed > 0 ? profile.speed : 1;
+  return meters / speed + elevatorRides * Math.max(0, profile.elevatorWait);
+}
+
+export type TravelEstimate = { meters: number; seconds: number };
+
+/** Distance and time for one instruction; elevator steps include the wait allowance. */
+export function estimateInstruction(instruction: Instruction, profile: MobilityProfile): TravelEstimate {
+  const meters = toMeters(instruction.distance);
+  const rides = instruction.action === 'take-elevator' ? 1 : 0;
+  return { meters, seconds: estimateSeconds(meters, rides, profile) };
+}
+
+/** Totals over a route's instructions. */
+export function estimateInstructions(instructions: Instruction[], profile: MobilityProfile): TravelEstimate {
+  return instructions.reduce(
+    (total, instruction) => {
+      const step = estimateInstruction(instruction, profile);
+      return { meters: total.meters + step.meters, seconds: total.seconds + step.seconds };
+    },
+    { meters: 0, seconds: 0 }
+  );
+}
+
+/** e.g. "210 m · about 4 min by wheelchair". */
+export function formatTravel(estimate: TravelEstimate, units: DistanceUnits, profile: MobilityProfile): string {
+  return `${formatDistance(estimate.meters, units)} · ${formatDuration(estimate.seconds)} ${profile.travelMode}`;
+}
@@ -0,0 +1,93 @@
+import { Instruction, InstructionAction } from '@/utils/instructions';
+import { MobilityProfile } from '@/utils/mobility';
+import { DistanceUnits, estimateInstruction, formatDistance, formatDuration } from '@/utils/travel';
+import * as Speech from 'expo-speech';
+
+/** How much is said for each step: the action only, the step text, or the text with distance and time. */
+export type VoiceVerbosity = 'brief' | 'standard' | 'detailed';
+
+export const VOICE_VERBOSITY_OPTIONS: { value: VoiceVerbosity; label: string }[] = [
+  { value: 'brief', label: 'Brief' },
+  { value: 'standard', label: 'Standard' },
+  { value: 'detailed', label: 'Detailed' },
+];
+
+// Brief phrases for turns and arrival; building, campus and elevator steps keep
+// their full text, since the name is what the user listens for
+const BRIEF_PHRASES: Partial<Record<InstructionAction, string>> = {
+  continue: 'Continue straight',
+  'slight-left': 'Slight left',
+  'slight-right': 'Slight right',
+  'turn-left': 'Turn left',
+  'turn-right': 'Turn right',
+  'sharp-left': 'Sharp left',
+  'sharp-right': 'Sharp right',
+  arrive: 'You have arrived',
+};
+
+const UNIT_WORDS: Record<string, [string, string]> = {
+  m: ['meter', 'meters'],
+  km: ['kilometer', 'kilometers'],
+  ft: ['foot', 'feet'],
+  mi: ['mile', 'miles'],
+  min: ['minute', 'minutes'],
+};
+
+/** "45 m" -> "45 meters", so speech engines do not read unit abbreviations letter by letter. */
+const spellUnits = (text: string) =>
+  text.replace(/\b(\d+(?:\.\d+)?) (m|km|ft|mi|min)\b/g, (_, value: string, unit: string) => {
+    const [one, many] = UNIT_WORDS[unit];
+    return `${value} ${value === '1' ? one : many}`;
+  });
+
+export type SpokenStepContext = {
+  /** Index of the step in the route's instructions. */
+  index: number;
+  count: number;
+  units: DistanceUnits;
+  profile: MobilityProfile;
+};
+
+/** What voice guidance says for `instruction` at the given verbosity. */
+export function spokenInstruction(
+  instruction: Instruction,
+  verbosity: VoiceVerbosity,
+  { index, count, units, profile }: SpokenStepContext
+): string {
+  if (verbosity === 'brief') return BRIEF_PHRASES[instruction.action] ?? instruction.text;
+  if (verbosity === 'standard') return instruction.text;
+
+  const parts = [`Step ${index + 1} of ${count}. ${instruction.text}`];
+  if (instruction.distance > 0) {
+    const { meters, seconds } = estimateInstruction(instruction, profile);
+    parts.push(`then continue for ${formatDistance(meters, units)}, ${formatDuration(seconds)}`);
+  }
+  return `${spellUnits(parts.join(', '))}.`;
+}
+
+/**
+ * Languages route steps are written in (language subtags). Steps are not
+ * translated yet: on a system set to another language its voice reads the
+ * English text, and Settings says so (see `stepTextInSystemLanguage`).
+ */
+export const STEP_TEXT_LANGUAGES = ['en'];
+
+/** The system locale, e.g. "en-US" or "fr-FR". */
+const systemLocale = () => Intl.DateTimeFormat().resolvedOptions().locale;
+
+/** Whether route steps are written in the system language. */
+export const stepTextInSystemLanguage = () =>
+  STEP_TEXT_LANGUAGES.includes(systemLocale().split('-')[0].toLowerCase());
+
+/**
+ * Speaks `text` with the system language's voice, cutting off anything still
+ * being said. No rate or pitch is passed, so the system speech rate applies.
+ */
+export function speak(text: string) {
+  Speech.stop();
+  Speech.speak(text, { language: systemLocale() });
+}
+
+export const stopSpeaking = () => {
+  Speech.stop();
+};